@@ -1,8 +1,36 @@
 
-import React, { useState, useRef } from 'react';
-import { ProcessingStatus, Keyframe, ProductBatch } from './types';
-import { processVideo } from './services/videoProcessor';
-import JSZip from 'jszip';
+import React, { useState, useRef, useEffect } from 'react';
+import { ProcessingStatus, Keyframe, ProductBatch, ExtractionOptions, MetricScore, ScorerId, AiLanguage, AppConfig, ColorAdjustments } from './types';
+import {
+  processVideo,
+  EXTRACTION_PRESETS,
+  DEFAULT_DEDUPE_OPTIONS,
+  DEFAULT_TOP_N,
+  DEFAULT_MAX_PER_SEGMENT,
+  planSegmentSeeks,
+  totalAnalysisSeeks
+} from './services/videoProcessor';
+import { isAbortError, VideoProcessingError } from './services/frameAccess';
+import { describeSource } from './services/mediaProbe';
+import { groupUploads, isImageFile, processImageBurst } from './services/stillProcessor';
+import { BatchScheduler, detectDevice, estimateQueue, formatDuration, MAX_CONCURRENCY, recommendConcurrency } from './services/processingScheduler';
+import { getCuratedFrames, pinFrame, rejectFrame, moveFrame } from './services/curation';
+import TimelineScrubber from './components/TimelineScrubber';
+import { analyzeFrames, isAiConfigured, pickAiFields, AI_LANGUAGES, MISSING_API_KEY_MESSAGE, SHOT_TYPES } from './services/geminiService';
+import { SCORER_REGISTRY, DEFAULT_SCORER_WEIGHTS } from './services/frameScorers';
+import { buildImageMetadata, exportFrame, getActivePresets } from './services/exportPresets';
+import { exportArchive, ArchiveProgress } from './services/archiveExport';
+import { clearAll, collectObjectUrls, deleteBatch, isPersistenceAvailable, loadBatches, requestPersistentStorage, saveBatch } from './services/batchStore';
+import { applyMappingRow, buildMapping, ATTRIBUTE_LABELS, matchMapping, readSpreadsheet, MappingResult, ProductMapping } from './services/productMapping';
+import { buildNamingContext, renderFileName, uniqueFileName, SAMPLE_NAMING_CONTEXT } from './services/fileNaming';
+import { DEFAULT_APP_CONFIG, needsRender, renderFrame, renderSignature, getOutputUrl, resolveAdjustments } from './services/renderPipeline';
+import CropControls from './components/CropControls';
+import ColorControls from './components/ColorControls';
+import ExportPresetPanel from './components/ExportPresetPanel';
+import PromoClipPanel from './components/PromoClipPanel';
+import SettingsDialog from './components/SettingsDialog';
+import MappingReport from './components/MappingReport';
+import StorageManager from './components/StorageManager';
 import { 
   SparklesIcon,
   FolderIcon,
@@ -10,43 +38,235 @@ import {
   CommandLineIcon,
   CheckBadgeIcon,
   ChevronRightIcon,
+  ChevronLeftIcon,
+  PlusIcon,
+  ArrowUturnLeftIcon,
   ArrowDownTrayIcon,
   Cog6ToothIcon,
   TrashIcon,
   XMarkIcon,
   PencilSquareIcon,
   Bars3Icon,
-  PhotoIcon
+  PhotoIcon,
+  FilmIcon,
+  TableCellsIcon,
+  CircleStackIcon,
+  PauseIcon,
+  PlayIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  FolderOpenIcon
 } from '@heroicons/react/24/outline';
 
+// 源文件是否可用：页面重新加载后 File 对象无法恢复，需重新选择
+const hasSource = (batch: ProductBatch) => !!(batch.rawFile || batch.rawFiles?.length);
+
+const sourceLabel = (batch: ProductBatch) => batch.kind === 'images' ? '源图片' : '源视频';
+
+// 各评分器得分明细，展示该帧胜出的原因
+function MetricBars({ metrics, dark = false }: { metrics?: MetricScore[]; dark?: boolean }) {
+  if (!metrics || metrics.length === 0) return null;
+  return (
+    <div className="space-y-1 mt-2">
+      {metrics.map(m => (
+        <div key={m.id} className="flex items-center gap-2" title={`${SCORER_REGISTRY[m.id].description} (原始值 ${m.raw.toFixed(2)}, 权重 ${m.weight})`}>
+          <span className={`text-[8px] md:text-[9px] w-16 shrink-0 truncate ${dark ? 'text-white/70' : 'text-slate-400'}`}>{SCORER_REGISTRY[m.id].name}</span>
+          <div className={`flex-1 h-1 rounded-full overflow-hidden ${dark ? 'bg-white/20' : 'bg-slate-100'}`}>
+            <div className="h-full bg-amber-500" style={{ width: `${Math.round(m.normalized * 100)}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function App() {
   const [batches, setBatches] = useState<ProductBatch[]>([]);
   const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
   const [previewImage, setPreviewImage] = useState<Keyframe | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ArchiveProgress | null>(null);
+  const [presetId, setPresetId] = useState(EXTRACTION_PRESETS[0].id);
+  const [aiEnabled, setAiEnabled] = useState(isAiConfigured());
+  const [aiLanguage, setAiLanguage] = useState<AiLanguage>('zh-CN');
+  const [config, setConfig] = useState<AppConfig>(DEFAULT_APP_CONFIG);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [mapping, setMapping] = useState<ProductMapping | null>(null);
+  const [mappingReport, setMappingReport] = useState<{ fileName: string; result?: MappingResult; error?: string } | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  const [recommendedConcurrency] = useState(() => recommendConcurrency(detectDevice()));
+  const [concurrencyOverride, setConcurrencyOverride] = useState<number | null>(null);
+  // 本轮处理的开始时间与已结束 (完成或失败) 的批次数，用于估算吞吐与剩余时间
+  const [queueRun, setQueueRun] = useState<{ startedAt: number; finished: number } | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const mappingInputRef = useRef<HTMLInputElement>(null);
+  const sourceInputRef = useRef<HTMLInputElement>(null);
+  const relinkTargetRef = useRef<string | null>(null);
+  // 最近一次写入 IndexedDB 的批次对象，引用未变的批次无需重复保存
+  const savedRef = useRef(new Map<string, ProductBatch>());
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  // 队列调度读取最新批次；异步循环中的闭包只能拿到启动时的 batches
+  const batchesRef = useRef(batches);
+  batchesRef.current = batches;
+  const abortRef = useRef(new Map<string, AbortController>());
+  const schedulerRef = useRef<BatchScheduler<ProductBatch> | null>(null);
+  // 本轮已尝试过的批次，取消后回到等待状态的批次不会被立即再次处理
+  const attemptedRef = useRef(new Set<string>());
+
+  // 启动时从 IndexedDB 恢复队列
+  useEffect(() => {
+    if (!isPersistenceAvailable()) {
+      setIsRestored(true);
+      return;
+    }
+    loadBatches()
+      .then(restored => {
+        restored.forEach(b => savedRef.current.set(b.id, b));
+        if (restored.length === 0) return;
+        setBatches(prev => [...restored, ...prev]);
+        setActiveBatchId(id => id || restored[0].id);
+      })
+      .catch(err => console.error('Restore failed', err))
+      .finally(() => setIsRestored(true));
+    requestPersistentStorage();
+  }, []);
+
+  // 批次变化后延迟写入；恢复完成前不写入，避免覆盖已保存的数据
+  useEffect(() => {
+    if (!isRestored || !isPersistenceAvailable()) return;
+    const timer = setTimeout(() => {
+      const saved = savedRef.current;
+      const changed = batches.filter(b => saved.get(b.id) !== b);
+      const removed = [...saved.keys()].filter(id => !batches.some(b => b.id === id));
+      changed.forEach(b => saved.set(b.id, b));
+      removed.forEach(id => saved.delete(id));
+      if (changed.length === 0 && removed.length === 0) return;
+
+      saveChainRef.current = saveChainRef.current.then(async () => {
+        for (const batch of changed) {
+          try {
+            await saveBatch(batch, batches.indexOf(batch));
+          } catch (err) {
+            console.error('Persist failed', err);
+            // 下次变化时重试
+            if (saved.get(batch.id) === batch) saved.delete(batch.id);
+          }
+        }
+        for (const id of removed) await deleteBatch(id).catch(err => console.error('Delete failed', err));
+      });
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [batches, isRestored]);
+
+  // 删除、重新处理或重新渲染后不再被引用的 blob: URL 在进行中的保存读取完毕后释放
+  const objectUrlsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const live = collectObjectUrls(batches);
+    const stale = [...objectUrlsRef.current].filter(url => !live.has(url));
+    objectUrlsRef.current = live;
+    if (stale.length > 0) saveChainRef.current.then(() => stale.forEach(url => URL.revokeObjectURL(url)));
+  }, [batches]);
+
+  const renderingRef = useRef(new Set<string>());
+
+  // 最终精选帧按输出设置渲染 processedUrl；设置、手动裁剪或色彩校正变化后自动重新渲染
+  useEffect(() => {
+    batches
+      .filter(b => b.status === ProcessingStatus.COMPLETED)
+      .forEach(batch => {
+        getCuratedFrames(batch)
+          .filter(f => needsRender(f, config, resolveAdjustments(batch, f)))
+          .forEach(async (frame) => {
+            const adjustments = resolveAdjustments(batch, frame);
+            const signature = renderSignature(frame, config, adjustments);
+            const key = `${batch.id}:${frame.id}:${signature}`;
+            if (renderingRef.current.has(key)) return;
+            renderingRef.current.add(key);
+            try {
+              const rendered = await renderFrame(frame, config, adjustments);
+              // 渲染期间参数可能已变化，仅在签名仍一致时写回；作废的结果直接释放
+              const current = batchesRef.current.find(b => b.id === batch.id);
+              const target = current?.frames.find(f => f.id === frame.id);
+              if (!current || !target || renderSignature(target, config, resolveAdjustments(current, target)) !== signature) {
+                if (rendered.processedUrl) URL.revokeObjectURL(rendered.processedUrl);
+                return;
+              }
+              setBatches(prev => prev.map(b => b.id === batch.id
+                ? { ...b, frames: b.frames.map(f => f.id === frame.id && renderSignature(f, config, resolveAdjustments(b, f)) === signature
+                    ? { ...f, processedUrl: rendered.processedUrl, processedWith: rendered.processedWith, productRegion: rendered.productRegion }
+                    : f) }
+                : b
+              ));
+            } catch (err) {
+              console.error('Render failed', err);
+            } finally {
+              renderingRef.current.delete(key);
+            }
+          });
+      });
+  }, [batches, config]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []) as File[];
-    if (files.length === 0) return;
+    e.target.value = '';
+    // 视频各自成批；同一文件夹 (或同一次多选) 的图片合并为一个连拍批次
+    const { videos, bursts } = groupUploads(files);
+    if (videos.length === 0 && bursts.length === 0) return;
 
-    const newBatches: ProductBatch[] = files.map(file => ({
+    const newBatch = (fileName: string) => ({
       id: Math.random().toString(36).substr(2, 9),
-      fileName: file.name,
-      productKey: file.name.split('.')[0],
+      fileName,
+      productKey: fileName.split('.')[0],
       status: ProcessingStatus.QUEUED,
       progress: 0,
       frames: [],
-      rawFile: file
-    }));
+      extraction: { ...(EXTRACTION_PRESETS.find(p => p.id === presetId) || EXTRACTION_PRESETS[0]).options }
+    });
+    let newBatches: ProductBatch[] = [
+      ...videos.map(file => ({ ...newBatch(file.name), rawFile: file })),
+      ...bursts.map(burst => ({ ...newBatch(burst.name), kind: 'images' as const, rawFiles: burst.files }))
+    ];
+    // 已导入商品表时，新上传的视频自动套用
+    if (mapping) {
+      const { matched } = matchMapping(newBatches, mapping);
+      newBatches = newBatches.map(b => {
+        const hit = matched.find(m => m.batchId === b.id);
+        return hit ? applyMappingRow(b, hit.row) : b;
+      });
+    }
 
     setBatches(prev => [...prev, ...newBatches]);
     if (!activeBatchId) setActiveBatchId(newBatches[0].id);
     if (window.innerWidth < 768) setIsSidebarOpen(false);
   };
 
+  const handleMappingSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const next = buildMapping(await readSpreadsheet(file));
+      const result = matchMapping(batches, next);
+      setMapping(next);
+      setBatches(prev => prev.map(b => {
+        const hit = result.matched.find(m => m.batchId === b.id);
+        return hit ? applyMappingRow(b, hit.row) : b;
+      }));
+      setMappingReport({ fileName: file.name, result });
+    } catch (err) {
+      setMappingReport({ fileName: file.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
   const getStatusLabel = (status: ProcessingStatus) => {
     switch (status) {
       case ProcessingStatus.QUEUED: return '等待中';
@@ -57,93 +277,277 @@ export default function App() {
     }
   };
 
-  const startProcessing = async () => {
-    const queued = batches.filter(b => b.status === ProcessingStatus.QUEUED);
-    
-    for (const batch of queued) {
-      updateBatch(batch.id, { status: ProcessingStatus.PROCESSING });
+  const processBatch = async (batch: ProductBatch) => {
+    const controller = new AbortController();
+    abortRef.current.set(batch.id, controller);
+    updateBatch(batch.id, { status: ProcessingStatus.PROCESSING, progress: 0, error: undefined, errorReason: undefined });
 
-      try {
-        if (!batch.rawFile) throw new Error("Source file missing for " + batch.productKey);
+    try {
+      if (!hasSource(batch)) throw new Error("Source file missing for " + batch.productKey);
+
+      const onProgress = (p: number) => updateBatch(batch.id, { progress: p });
+      const { frames: extracted, metadata } = batch.kind === 'images'
+        ? await processImageBurst(batch.rawFiles || [], onProgress, batch.extraction, controller.signal)
+        : await processVideo(batch.rawFile as File, onProgress, batch.extraction, controller.signal);
 
-        const { frames: extracted, metadata } = await processVideo(
-          batch.rawFile, 
-          (p) => updateBatch(batch.id, { progress: p })
-        );
+      const finalFrames: Keyframe[] = extracted.map((f) => ({
+        ...f,
+        label: `分段 ${f.partId} - 排名 ${f.rankId}`,
+        aiDescription: f.sourceFile ? `连拍原图 ${f.sourceFile}` : "高清视频帧提取",
+        aiStatus: aiEnabled ? 'pending' : undefined
+      }));
 
-        const finalFrames = extracted.map((f) => ({
-          ...f,
-          label: `分段 ${f.partId} - 排名 ${f.rankId}`,
-          aiDescription: "高清视频帧提取"
-        }));
+      updateBatch(batch.id, {
+        status: ProcessingStatus.COMPLETED,
+        frames: finalFrames,
+        selection: undefined,
+        metadata
+      });
 
+      // AI 分析在后台进行，不阻塞队列中的下一个视频
+      if (aiEnabled) runAiAnalysis(batch.id, finalFrames).catch(console.error);
+    } catch (err) {
+      if (isAbortError(err)) {
+        // 取消或暂停：回到等待状态，上次的结果 (如有) 保留
+        updateBatch(batch.id, { status: ProcessingStatus.QUEUED, progress: 0 });
+      } else {
+        console.error(err);
         updateBatch(batch.id, {
-          status: ProcessingStatus.COMPLETED,
-          frames: finalFrames,
-          metadata
+          status: ProcessingStatus.ERROR,
+          error: err instanceof Error ? err.message : String(err),
+          errorReason: err instanceof VideoProcessingError ? err.reason : 'unknown'
         });
-      } catch (err) {
-        console.error(err);
-        updateBatch(batch.id, { status: ProcessingStatus.ERROR });
       }
+    } finally {
+      abortRef.current.delete(batch.id);
+      if (!controller.signal.aborted) setQueueRun(run => run && { ...run, finished: run.finished + 1 });
+    }
+  };
+
+  const concurrency = concurrencyOverride ?? recommendedConcurrency;
+
+  // 吞吐与剩余时间：进行中批次按进度折算为已完成的工作量
+  const queueEstimate = queueRun && (() => {
+    const running = batches.filter(b => b.status === ProcessingStatus.PROCESSING);
+    const pending = batches.filter(b => b.status === ProcessingStatus.QUEUED && hasSource(b)).length;
+    const partial = running.reduce((sum, b) => sum + b.progress / 100, 0);
+    return estimateQueue((Date.now() - queueRun.startedAt) / 1000, queueRun.finished + partial, pending + running.length - partial);
+  })();
+
+  useEffect(() => {
+    schedulerRef.current?.setConcurrency(concurrency);
+  }, [concurrency]);
+
+  // 领取下一个等待中的批次；恢复后缺少源视频的批次需先重新选择源文件
+  const pickNextBatch = () => {
+    const next = batchesRef.current.find(b =>
+      b.status === ProcessingStatus.QUEUED && hasSource(b) && !attemptedRef.current.has(b.id));
+    if (next) attemptedRef.current.add(next.id);
+    return next;
+  };
+
+  // 按并行数同时处理多个视频，每个任务使用独立的视频元素与画布
+  const startProcessing = async () => {
+    if (schedulerRef.current?.isRunning) return;
+    attemptedRef.current.clear();
+    setIsQueueRunning(true);
+    setIsQueuePaused(false);
+    setQueueRun({ startedAt: Date.now(), finished: 0 });
+
+    const scheduler = new BatchScheduler(pickNextBatch, processBatch, concurrency);
+    schedulerRef.current = scheduler;
+    await scheduler.start();
+    setIsQueueRunning(false);
+    setQueueRun(null);
+  };
+
+  // 暂停：中止正在处理的视频 (回到等待状态)，继续后从这些视频重新开始
+  const pauseProcessing = () => {
+    schedulerRef.current?.pause();
+    setIsQueuePaused(true);
+    abortRef.current.forEach(controller => controller.abort());
+  };
+
+  const cancelBatch = (id: string) => abortRef.current.get(id)?.abort();
+
+  const retryBatch = (batch: ProductBatch) => {
+    attemptedRef.current.delete(batch.id);
+    if (schedulerRef.current?.isRunning) {
+      updateBatch(batch.id, { status: ProcessingStatus.QUEUED, progress: 0, error: undefined, errorReason: undefined });
+    } else {
+      processBatch(batch);
     }
   };
 
+  // 已完成的批次回到等待状态以修改抽帧方案；重新处理完成前保留上次的结果
+  const reprocessBatch = (batch: ProductBatch) => {
+    const curated = !!batch.selection || batch.frames.some(f => f.custom);
+    if (curated && !window.confirm('重新处理将覆盖手动调整的精选与截取的帧，确定继续？')) return;
+    updateBatch(batch.id, { status: ProcessingStatus.QUEUED, progress: 0 });
+  };
+
+  const restoreResult = (batch: ProductBatch) => updateBatch(batch.id, { status: ProcessingStatus.COMPLETED, progress: 100 });
+
   const updateBatch = (id: string, updates: Partial<ProductBatch>) => {
     setBatches(prev => prev.map(b => b.id === id ? { ...b, ...updates } : b));
   };
 
+  // 在最新状态上合并字段：异步回调 (如 AI 分析) 持有的帧快照可能已过期
+  const updateFrame = (batchId: string, frameId: string, updates: Partial<Keyframe>) => {
+    setBatches(prev => prev.map(b => b.id === batchId
+      ? { ...b, frames: b.frames.map(f => f.id === frameId ? { ...f, ...updates } : f) }
+      : b
+    ));
+  };
+
+  // 批次级色彩校正：清除精选帧上的单独调整，使其统一继承批次设置
+  const applyAdjustmentsToBatch = (batch: ProductBatch, adjustments: ColorAdjustments) => {
+    const curated = getCuratedFrames(batch).map(f => f.id);
+    updateBatch(batch.id, {
+      adjustments,
+      frames: batch.frames.map(f => curated.includes(f.id) ? { ...f, adjustments: undefined } : f)
+    });
+  };
+
+  const runAiAnalysis = (batchId: string, frames: Keyframe[]) => {
+    frames.forEach(f => updateFrame(batchId, f.id, { aiStatus: 'pending', aiError: undefined }));
+    return analyzeFrames(frames, {
+      language: aiLanguage,
+      onFrame: (frame) => updateFrame(batchId, frame.id, pickAiFields(frame))
+    }).catch(err => {
+      // 意外失败时结束「分析中」状态，允许逐帧重试
+      const aiError = err instanceof Error ? err.message : String(err);
+      frames.forEach(f => updateFrame(batchId, f.id, { aiStatus: 'error', aiError }));
+      throw err;
+    });
+  };
+
+  const updateExtraction = (id: string, updates: Partial<ExtractionOptions>) => {
+    setBatches(prev => prev.map(b => b.id === id ? { ...b, extraction: { ...b.extraction, ...updates } } : b));
+  };
+
+  // 已完成的批次以实际生效的方案为准，其余使用待处理方案
+  const getExtraction = (batch: ProductBatch): ExtractionOptions => batch.metadata?.extraction || batch.extraction;
+
+  // 时间轴截取的帧加入候选并直接进入精选；同一时间点重复截取时覆盖
+  const addCustomFrame = (batch: ProductBatch, frame: Keyframe) => {
+    const next = { ...batch, frames: [...batch.frames.filter(f => f.id !== frame.id), frame] };
+    updateBatch(batch.id, { frames: next.frames, selection: pinFrame(next, frame.id) });
+  };
+
+  const openPreview = (frame: Keyframe) => {
+    setShowOriginal(false);
+    setPreviewImage(frame);
+  };
+
   const removeBatch = (id: string) => {
     setBatches(prev => prev.filter(b => b.id !== id));
     if (activeBatchId === id) setActiveBatchId(null);
   };
 
-  const downloadZip = async (batch: ProductBatch) => {
+  const purgeBatch = async (id: string) => {
+    removeBatch(id);
+    savedRef.current.delete(id);
+    await saveChainRef.current;
+    await deleteBatch(id);
+  };
+
+  const purgeAll = async () => {
+    setBatches([]);
+    setActiveBatchId(null);
+    savedRef.current.clear();
+    await saveChainRef.current;
+    await clearAll();
+  };
+
+  const pickSource = (batch: ProductBatch) => {
+    const input = sourceInputRef.current;
+    if (!input) return;
+    relinkTargetRef.current = batch.id;
+    // 图片批次需重新多选整组图片
+    input.accept = batch.kind === 'images' ? 'image/*,.heic,.heif' : 'video/*';
+    input.multiple = batch.kind === 'images';
+    input.click();
+  };
+
+  // 为恢复后的批次重新关联源视频 / 源图片
+  const handleSourceSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    const batch = batches.find(b => b.id === relinkTargetRef.current);
+    if (files.length === 0 || !batch) return;
+    if (batch.kind === 'images') {
+      updateBatch(batch.id, { rawFiles: files.filter(isImageFile) });
+    } else {
+      updateBatch(batch.id, { rawFile: files[0], fileName: files[0].name });
+    }
+  };
+
+  const downloadArchive = async (targets: ProductBatch[], fileName: string) => {
+    if (isExporting) return;
+
+    setIsExporting(true);
+    try {
+      const content = await exportArchive(targets, config, setExportProgress);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(content);
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 60000);
+    } catch (err) {
+      console.error('Export failed', err);
+    } finally {
+      setIsExporting(false);
+      setExportProgress(null);
+    }
+  };
+
+  const downloadZip = (batch: ProductBatch) => {
     if (batch.status !== ProcessingStatus.COMPLETED) return;
-    
-    const zip = new JSZip();
-    const folder = zip.folder(batch.productKey);
-    const topFrames = batch.frames.filter(f => f.rankId === 1);
-    
-    topFrames.forEach((frame) => {
-      const base64Data = frame.dataUrl.split(',')[1];
-      const filename = `JS_${batch.metadata?.videoId}_${batch.metadata?.sessionTime}_P${frame.partId}_R${frame.rankId}.jpg`;
-      folder?.file(filename, base64Data, { base64: true });
-    });
-    
-    const content = await zip.generateAsync({ type: 'blob' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(content);
-    link.download = `${batch.productKey}_精选图.zip`;
-    link.click();
+    downloadArchive([batch], `${batch.productKey}_精选图.zip`);
+  };
+
+  // 队列级导出：已完成的批次全部打包，出错的批次记录在清单中
+  const downloadAll = () => {
+    if (!batches.some(b => b.status === ProcessingStatus.COMPLETED)) return;
+    downloadArchive(batches, `JewelSnap_${new Date().toISOString().slice(0, 10)}_全部精选图.zip`);
   };
 
   const saveToGallery = async (batch: ProductBatch) => {
     if (batch.status !== ProcessingStatus.COMPLETED || isSharing) return;
     
-    const topFrames = batch.frames.filter(f => f.rankId === 1);
+    const topFrames = getCuratedFrames(batch);
     if (topFrames.length === 0) return;
 
+    setIsSharing(true);
+    let files: File[];
+    try {
+      // 存入相册使用第一个启用的导出预设
+      const preset = getActivePresets(config.exportPresets)[0];
+      const used = new Set<string>();
+      const results = await Promise.all(
+        topFrames.map(frame => exportFrame(getOutputUrl(frame), preset, buildImageMetadata(batch, frame, config.metadata)))
+      );
+      files = results.map((result, index) => {
+        const name = renderFileName(config.fileNameTemplate, buildNamingContext(batch, topFrames[index], index + 1));
+        return new File([result.blob], uniqueFileName(name, result.ext, used), { type: result.blob.type });
+      });
+    } catch (err) {
+      console.error('Export failed', err);
+      setIsSharing(false);
+      return;
+    }
+
     // 针对 iPhone/iOS 的优化方案：尝试使用 Web Share API
     // 这样在 iOS 上会弹出分享面板，用户可以选择“存储 5 张图像”，直接存入相册而非文件夹
     if (navigator.share && navigator.canShare) {
       try {
-        setIsSharing(true);
-        const files: File[] = await Promise.all(
-          topFrames.map(async (frame, index) => {
-            const res = await fetch(frame.dataUrl);
-            const blob = await res.blob();
-            return new File([blob], `${batch.productKey}_${index + 1}.jpg`, { type: 'image/jpeg' });
-          })
-        );
-
         if (navigator.canShare({ files })) {
           await navigator.share({
             files,
             title: '保存精选图',
             text: `来自 ${batch.productKey} 的精选抽帧`
           });
-          setIsSharing(false);
           return;
         }
       } catch (err) {
@@ -152,13 +556,14 @@ export default function App() {
         setIsSharing(false);
       }
     }
+    setIsSharing(false);
 
     // 兜底方案：传统下载逻辑 (在 PC 或 不支持 Share API 的安卓上运行)
-    topFrames.forEach((frame, index) => {
+    files.forEach((file, index) => {
       setTimeout(() => {
         const link = document.createElement('a');
-        link.href = frame.dataUrl;
-        link.download = `${batch.productKey}_高清帧_${index + 1}.jpg`;
+        link.href = URL.createObjectURL(file);
+        link.download = file.name;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -167,6 +572,19 @@ export default function App() {
   };
 
   const activeBatch = batches.find(b => b.id === activeBatchId);
+  const curatedIds = activeBatch ? getCuratedFrames(activeBatch).map(f => f.id) : [];
+  const exportLabel = !exportProgress
+    ? '正在准备...'
+    : exportProgress.phase === 'encode'
+      ? `正在编码 ${exportProgress.done}/${exportProgress.total}`
+      : exportProgress.phase === 'clip'
+        ? `正在生成短视频 ${exportProgress.productKey} ${Math.round(exportProgress.percent)}%`
+        : `正在打包 ${Math.round(exportProgress.percent)}%`;
+  // 命名模板预览优先使用当前批次的第一张精选
+  const sampleFrame = activeBatch?.status === ProcessingStatus.COMPLETED ? getCuratedFrames(activeBatch)[0] : undefined;
+  const namingSample = activeBatch && sampleFrame ? buildNamingContext(activeBatch, sampleFrame, 1) : SAMPLE_NAMING_CONTEXT;
+  // 预览始终显示最新状态 (渲染结果、手动裁剪)
+  const previewFrame = previewImage && (activeBatch?.frames.find(f => f.id === previewImage.id) || previewImage);
 
   const SidebarContent = () => (
     <div className="flex flex-col h-full bg-white">
@@ -177,25 +595,59 @@ export default function App() {
           </div>
           <h1 className="font-bold text-lg tracking-tight">JewelSnap <span className="text-amber-500">V3.2</span></h1>
         </div>
-        <button onClick={() => setIsSidebarOpen(false)} className="md:hidden p-2 text-slate-400">
-          <XMarkIcon className="w-6 h-6" />
-        </button>
+        <div className="flex items-center">
+          <button onClick={() => setIsStorageOpen(true)} className="p-2 text-slate-400 hover:text-amber-500" title="本地存储">
+            <CircleStackIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => setIsSettingsOpen(true)} className="p-2 text-slate-400 hover:text-amber-500" title="设置">
+            <Cog6ToothIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => setIsSidebarOpen(false)} className="md:hidden p-2 text-slate-400">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
       </div>
 
-      <div className="p-6 border-b border-slate-100">
+      <div className="p-6 border-b border-slate-100 space-y-3">
+        <select
+          value={presetId}
+          onChange={(e) => setPresetId(e.target.value)}
+          className="w-full bg-slate-50 border-none rounded-xl px-3 py-2 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-amber-500"
+          title="新上传视频 / 连拍使用的抽帧方案"
+        >
+          {EXTRACTION_PRESETS.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
         <button 
           onClick={() => fileInputRef.current?.click()}
           className="w-full flex items-center justify-center gap-2 py-3 bg-slate-900 text-white rounded-xl font-semibold text-sm hover:bg-slate-800 transition-all shadow-lg shadow-slate-200"
         >
           <ArrowUpTrayIcon className="w-4 h-4" />
-          批量上传视频
+          批量上传视频 / 图片
+        </button>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-2 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded-xl font-bold text-xs"
+          title="同一文件夹内的 JPEG / HEIC / PNG 连拍合并为一个商品，视频各自成为一个商品"
+        >
+          <FolderOpenIcon className="w-4 h-4" />
+          上传连拍文件夹
+        </button>
+        <button
+          onClick={() => mappingInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-2 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded-xl font-bold text-xs"
+          title="CSV / XLSX，按视频文件名匹配 SKU、标题、材质、颜色"
+        >
+          <TableCellsIcon className="w-4 h-4" />
+          {mapping ? `商品表已导入 (${mapping.rows.length} 行)` : '导入商品表'}
         </button>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-2">
         {batches.length === 0 && (
           <div className="text-center py-10 opacity-30 italic text-sm text-slate-400">
-            队列中暂无视频
+            队列中暂无视频或图片
           </div>
         )}
         {batches.map(batch => (
@@ -215,7 +667,10 @@ export default function App() {
               <FolderIcon className={`w-5 h-5 shrink-0 ${activeBatchId === batch.id ? 'text-amber-500' : 'text-slate-400'}`} />
               <div className="truncate">
                 <p className="text-sm font-bold truncate">{batch.productKey}</p>
-                <p className="text-[10px] text-slate-400 uppercase tracking-widest">{getStatusLabel(batch.status)}</p>
+                <p className="text-[10px] text-slate-400 uppercase tracking-widest">
+                  {getStatusLabel(batch.status)}
+                  {!hasSource(batch) && <span className="ml-1 text-amber-500">· 需{sourceLabel(batch)}</span>}
+                </p>
               </div>
             </div>
             <ChevronRightIcon className={`w-4 h-4 transition-transform ${activeBatchId === batch.id ? 'translate-x-0' : 'opacity-0 -translate-x-2'}`} />
@@ -223,14 +678,135 @@ export default function App() {
         ))}
       </div>
 
-      <div className="p-4 border-t border-slate-100">
-        <button 
-          disabled={batches.every(b => b.status !== ProcessingStatus.QUEUED)}
-          onClick={startProcessing}
-          className="w-full py-3 bg-amber-500 disabled:bg-slate-200 text-white rounded-xl font-bold text-sm shadow-xl shadow-amber-100"
+      <div className="p-4 border-t border-slate-100 space-y-3">
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600" title="按商品区域居中裁剪为正方形主图，导出使用该图">
+            <input
+              type="checkbox"
+              checked={config.squareOutput}
+              onChange={(e) => setConfig(prev => ({ ...prev, squareOutput: e.target.checked }))}
+              className="accent-amber-500"
+            />
+            1:1 方形主图
+          </label>
+          {config.squareOutput && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>边长 (px)</span>
+                <input
+                  type="number"
+                  min={200}
+                  step={100}
+                  value={config.squareSize}
+                  onChange={(e) => setConfig(prev => ({ ...prev, squareSize: Math.max(200, parseInt(e.target.value) || DEFAULT_APP_CONFIG.squareSize) }))}
+                  className="w-full bg-slate-50 border-none rounded-lg px-2 py-1 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                />
+              </label>
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>留白 (px)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={10}
+                  value={config.padding}
+                  onChange={(e) => setConfig(prev => ({ ...prev, padding: Math.min(Math.floor(prev.squareSize / 2) - 1, Math.max(0, parseInt(e.target.value) || 0)) }))}
+                  className="w-full bg-slate-50 border-none rounded-lg px-2 py-1 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 flex-1" title="本地分割商品并合成纯色背景，无需联网">
+            <input
+              type="checkbox"
+              checked={config.whiteBackground}
+              onChange={(e) => setConfig(prev => ({ ...prev, whiteBackground: e.target.checked }))}
+              className="accent-amber-500"
+            />
+            白底抠图
+          </label>
+          <input
+            type="color"
+            value={config.backgroundColor}
+            onChange={(e) => setConfig(prev => ({ ...prev, backgroundColor: e.target.value }))}
+            disabled={!config.whiteBackground}
+            className="w-8 h-6 rounded border border-slate-200 disabled:opacity-40"
+            title="背景色"
+          />
+        </div>
+        <ExportPresetPanel
+          presets={config.exportPresets}
+          onChange={(exportPresets) => setConfig(prev => ({ ...prev, exportPresets }))}
+        />
+        <PromoClipPanel
+          settings={config.promoClip}
+          onChange={(promoClip) => setConfig(prev => ({ ...prev, promoClip }))}
+        />
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 flex-1" title={isAiConfigured() ? '提取完成后调用 Gemini 生成标签、文案与镜头类型' : MISSING_API_KEY_MESSAGE}>
+            <input
+              type="checkbox"
+              checked={aiEnabled}
+              disabled={!isAiConfigured()}
+              onChange={(e) => setAiEnabled(e.target.checked)}
+              className="accent-amber-500 disabled:opacity-40"
+            />
+            AI 标注与文案
+          </label>
+          <select
+            value={aiLanguage}
+            onChange={(e) => setAiLanguage(e.target.value as AiLanguage)}
+            disabled={!aiEnabled}
+            className="bg-slate-50 border-none rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600 disabled:opacity-40"
+          >
+            {(Object.keys(AI_LANGUAGES) as AiLanguage[]).map(lang => (
+              <option key={lang} value={lang}>{AI_LANGUAGES[lang].label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-slate-600 flex-1" title="同时处理的视频数量；自动按 CPU 核心数与内存选择，iOS 固定为 1">
+            并行处理
+          </span>
+          <select
+            value={concurrencyOverride ?? 'auto'}
+            onChange={(e) => setConcurrencyOverride(e.target.value === 'auto' ? null : parseInt(e.target.value))}
+            className="bg-slate-50 border-none rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600"
+          >
+            <option value="auto">自动 ({recommendedConcurrency})</option>
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          disabled={isExporting || batches.every(b => b.status !== ProcessingStatus.COMPLETED)}
+          onClick={downloadAll}
+          className="w-full flex items-center justify-center gap-2 py-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-700 rounded-xl font-bold text-xs"
+          title="所有已完成批次打包为一个 ZIP，附带 manifest.csv / manifest.json"
         >
-          开始批量生图
+          <ArrowDownTrayIcon className={`w-3.5 h-3.5 ${isExporting ? 'animate-bounce' : ''}`} />
+          {isExporting ? exportLabel : '导出全部已完成 (.zip)'}
         </button>
+        {isQueueRunning && !isQueuePaused ? (
+          <button
+            onClick={pauseProcessing}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-slate-900 text-white rounded-xl font-bold text-sm"
+            title="中止当前视频并暂停队列，继续后从该视频重新开始"
+          >
+            <PauseIcon className="w-4 h-4" /> 暂停队列
+          </button>
+        ) : (
+          <button 
+            disabled={isQueueRunning || !batches.some(b => b.status === ProcessingStatus.QUEUED && hasSource(b))}
+            onClick={startProcessing}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-amber-500 disabled:bg-slate-200 text-white rounded-xl font-bold text-sm shadow-xl shadow-amber-100"
+          >
+            {isQueuePaused && <PlayIcon className="w-4 h-4" />}
+            {isQueuePaused ? '继续处理' : '开始批量生图'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -302,7 +878,46 @@ export default function App() {
                   <div className="w-full max-w-xs h-2 bg-slate-100 rounded-full mt-8 overflow-hidden mx-auto">
                     <div className="h-full bg-amber-500 transition-all" style={{ width: `${activeBatch.progress}%` }} />
                   </div>
-                  <p className="text-[10px] text-slate-400 mt-4 italic">提示：120个高清样本分析通常需要 10-20 秒，请耐心等待</p>
+                  <p className="text-[10px] text-slate-400 mt-4 italic">提示：{activeBatch.kind === 'images' ? `${activeBatch.rawFiles?.length ?? 0} 张图片` : `${totalAnalysisSeeks(activeBatch.extraction)}个高清样本`}分析通常需要 10-20 秒，请耐心等待</p>
+                  <button
+                    onClick={() => cancelBatch(activeBatch.id)}
+                    className="mt-6 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-xs font-bold"
+                  >
+                    取消处理
+                  </button>
+                </div>
+              )}
+
+              {activeBatch.status === ProcessingStatus.ERROR && (
+                <div className="flex flex-col items-center justify-center h-full gap-6 text-center">
+                  <ExclamationTriangleIcon className="w-16 md:w-20 h-16 md:h-20 text-red-400" />
+                  <div className="space-y-2 max-w-md px-4">
+                    <h3 className="text-lg md:text-xl font-black">处理失败</h3>
+                    <p className="text-sm text-slate-500">{activeBatch.error || '处理失败'}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {hasSource(activeBatch) ? (
+                      <button
+                        onClick={() => retryBatch(activeBatch)}
+                        className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-bold"
+                      >
+                        <ArrowPathIcon className="w-4 h-4" /> 重试
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => pickSource(activeBatch)}
+                        className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-bold"
+                      >
+                        选择{sourceLabel(activeBatch)}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => updateBatch(activeBatch.id, { status: ProcessingStatus.QUEUED, progress: 0, error: undefined, errorReason: undefined })}
+                      className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-xs font-bold"
+                    >
+                      修改抽帧方案
+                    </button>
+                  </div>
                 </div>
               )}
 
@@ -312,7 +927,7 @@ export default function App() {
                     <div className="bg-white p-4 md:p-6 rounded-2xl md:rounded-3xl shadow-sm border border-slate-100">
                       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
                         <h4 className="text-xs font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
-                          <CheckBadgeIcon className="w-4 h-4 text-emerald-500" /> V3.2 最终精选 (Top 5)
+                          <CheckBadgeIcon className="w-4 h-4 text-emerald-500" /> V3.2 最终精选 (Top {getExtraction(activeBatch).topN ?? DEFAULT_TOP_N})
                         </h4>
                         <div className="flex gap-2 w-full sm:w-auto">
                            <button 
@@ -325,27 +940,63 @@ export default function App() {
                           </button>
                           <button 
                             onClick={() => downloadZip(activeBatch)}
-                            className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 py-2 bg-amber-500 text-white rounded-lg text-xs font-bold hover:bg-amber-600 transition-colors shadow-lg shadow-amber-100"
+                            disabled={isExporting}
+                            className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 py-2 bg-amber-500 disabled:bg-slate-300 text-white rounded-lg text-xs font-bold hover:bg-amber-600 transition-colors shadow-lg shadow-amber-100"
                           >
-                            <ArrowDownTrayIcon className="w-3.5 h-3.5" />
-                            打包下载 (.zip)
+                            <ArrowDownTrayIcon className={`w-3.5 h-3.5 ${isExporting ? 'animate-bounce' : ''}`} />
+                            {isExporting ? exportLabel : '打包下载 (.zip)'}
                           </button>
                         </div>
                       </div>
                       <div className="grid grid-cols-3 sm:grid-cols-5 gap-2 md:gap-3">
-                        {activeBatch.frames.filter(f => f.rankId === 1).map((f) => (
-                          <div 
-                            key={f.id} 
-                            onClick={() => setPreviewImage(f)}
-                            className="aspect-square bg-slate-50 rounded-xl overflow-hidden border border-slate-100 group relative cursor-pointer"
-                          >
-                            <img src={f.dataUrl} className="w-full h-full object-cover" alt={f.label} />
-                            <div className="absolute inset-0 bg-black/40 opacity-0 md:group-hover:opacity-100 flex items-center justify-center transition-opacity">
-                              <SparklesIcon className="w-5 h-5 text-white" />
+                        {getCuratedFrames(activeBatch).map((f, index, picks) => (
+                          <div key={f.id} className="space-y-1">
+                            <div 
+                              onClick={() => openPreview(f)}
+                              className="aspect-square bg-slate-50 rounded-xl overflow-hidden border border-slate-100 group relative cursor-pointer"
+                            >
+                              <img src={getOutputUrl(f)} className="w-full h-full object-cover" alt={f.label} />
+                              <div className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/50 text-white text-[8px] font-black">{index + 1}</div>
+                              <div className="absolute inset-0 bg-black/40 opacity-0 md:group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                                <SparklesIcon className="w-5 h-5 text-white" />
+                              </div>
+                            </div>
+                            <div className="flex justify-between text-slate-400">
+                              <button
+                                onClick={() => updateBatch(activeBatch.id, { selection: moveFrame(activeBatch, f.id, -1) })}
+                                disabled={index === 0}
+                                className="p-1 hover:text-amber-500 disabled:opacity-20"
+                                title="前移"
+                              >
+                                <ChevronLeftIcon className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={() => updateBatch(activeBatch.id, { selection: rejectFrame(activeBatch, f.id) })}
+                                className="p-1 hover:text-red-500"
+                                title="移出精选"
+                              >
+                                <XMarkIcon className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={() => updateBatch(activeBatch.id, { selection: moveFrame(activeBatch, f.id, 1) })}
+                                disabled={index === picks.length - 1}
+                                className="p-1 hover:text-amber-500 disabled:opacity-20"
+                                title="后移"
+                              >
+                                <ChevronRightIcon className="w-3.5 h-3.5" />
+                              </button>
                             </div>
                           </div>
                         ))}
                       </div>
+                      {activeBatch.selection && (
+                        <button
+                          onClick={() => updateBatch(activeBatch.id, { selection: undefined })}
+                          className="mt-4 flex items-center gap-1 text-[10px] font-bold text-slate-400 hover:text-amber-500 transition-colors"
+                        >
+                          <ArrowUturnLeftIcon className="w-3 h-3" /> 恢复算法精选
+                        </button>
+                      )}
                     </div>
 
                     <div className="bg-white p-4 md:p-6 rounded-2xl md:rounded-3xl shadow-sm border border-slate-100">
@@ -354,37 +1005,159 @@ export default function App() {
                       </h4>
                       <div className="space-y-3">
                         <div className="flex justify-between text-xs gap-4"><span className="text-slate-500">产品标识:</span> <span className="font-mono truncate">{activeBatch.productKey}</span></div>
-                        <div className="flex justify-between text-xs"><span className="text-slate-500">扫描深度:</span> <span className="font-mono">120 个样本</span></div>
+                        {Object.entries(activeBatch.attributes || {}).map(([key, value]) => (
+                          <div key={key} className="flex justify-between text-xs gap-4"><span className="text-slate-500">{ATTRIBUTE_LABELS[key] || key}:</span> <span className="truncate">{value}</span></div>
+                        ))}
+                        <div className="flex justify-between text-xs"><span className="text-slate-500">扫描深度:</span> <span className="font-mono">{activeBatch.metadata?.scoreCurve.length ?? totalAnalysisSeeks(getExtraction(activeBatch))} 个样本</span></div>
+                        <div className="flex justify-between text-xs"><span className="text-slate-500">分段方案:</span> <span className="font-mono">
+                          {getExtraction(activeBatch).segments} 段 × {getExtraction(activeBatch).refine
+                            ? `(粗扫 ${planSegmentSeeks(getExtraction(activeBatch)).coarse} + 精扫 ${planSegmentSeeks(getExtraction(activeBatch)).fine})`
+                            : `${getExtraction(activeBatch).samplesPerSegment} 样本`} × 前 {getExtraction(activeBatch).picksPerSegment}
+                        </span></div>
+                        {activeBatch.kind === 'images' ? (
+                          <div className="flex justify-between text-xs"><span className="text-slate-500">源图片:</span> <span className="font-mono">{activeBatch.metadata?.imageCount ?? activeBatch.rawFiles?.length ?? 0} 张连拍</span></div>
+                        ) : (
+                          <div className="flex justify-between text-xs"><span className="text-slate-500">扫描区间:</span> <span className="font-mono">{getExtraction(activeBatch).startTime.toFixed(1)}s - {(getExtraction(activeBatch).endTime ?? activeBatch.metadata?.duration ?? 0).toFixed(1)}s</span></div>
+                        )}
+                        <div className="flex justify-between text-xs"><span className="text-slate-500">全局精选:</span> <span className="font-mono">Top {getExtraction(activeBatch).topN ?? DEFAULT_TOP_N} (单段最多 {getExtraction(activeBatch).maxPerSegment ?? DEFAULT_MAX_PER_SEGMENT})</span></div>
+                        <div className="flex justify-between text-xs"><span className="text-slate-500">评分模式:</span> <span className="font-mono">{getExtraction(activeBatch).mode === 'sparkle' ? '火彩优先' : '清晰度优先'}</span></div>
+                        <div className="flex justify-between text-xs"><span className="text-slate-500">去重阈值:</span> <span className="font-mono">哈希距离 ≤ {getExtraction(activeBatch).dedupe?.maxHashDistance ?? DEFAULT_DEDUPE_OPTIONS.maxHashDistance} / 间隔 ≥ {getExtraction(activeBatch).dedupe?.minTimeGap ?? DEFAULT_DEDUPE_OPTIONS.minTimeGap}s</span></div>
                         <div className="flex justify-between text-xs"><span className="text-slate-500">视频指纹:</span> <span className="font-mono">{activeBatch.metadata?.videoId}</span></div>
+                        {activeBatch.metadata?.source && (
+                          <div className="flex justify-between text-xs"><span className="text-slate-500">源视频编码:</span> <span className="font-mono">{describeSource(activeBatch.metadata.source) || '未知'}{activeBatch.metadata.source.rotation ? ` · 旋转 ${activeBatch.metadata.source.rotation}°` : ''}</span></div>
+                        )}
+                        {activeBatch.metadata?.decoder && (
+                          <div className="flex justify-between text-xs"><span className="text-slate-500">解码方式:</span> <span className="font-mono">{activeBatch.metadata.decoder === 'webcodecs' ? 'WebCodecs 顺序解码' : '寻帧'}</span></div>
+                        )}
+                        {!!activeBatch.metadata?.blankSamples && (
+                          <div className="flex justify-between text-xs"><span className="text-slate-500">跳过黑屏样本:</span> <span className="font-mono text-amber-500">{activeBatch.metadata.blankSamples}</span></div>
+                        )}
                         <div className="flex justify-between text-xs"><span className="text-slate-500">优化状态:</span> <span className="font-mono text-emerald-500">低耗分析已开启</span></div>
+                        <div className="flex justify-between text-xs"><span className="text-slate-500">AI 标注:</span> <span className="font-mono">{activeBatch.frames.filter(f => f.aiStatus === 'done').length} / {activeBatch.frames.length}</span></div>
                       </div>
+                      {activeBatch.metadata?.source?.hdr && (
+                        <p className="mt-4 flex gap-2 text-[10px] text-amber-700 bg-amber-50 rounded-lg p-3">
+                          <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+                          HDR 源视频由浏览器转换为 SDR 截图，画面可能发灰。建议在手机上关闭 HDR 视频录制，或分享时选择「最兼容」导出 SDR 版本后重新处理。
+                        </p>
+                      )}
+                      {activeBatch.frames.some(f => f.aiStatus !== 'done' && f.aiStatus !== 'pending') && (
+                        <button
+                          onClick={() => runAiAnalysis(activeBatch.id, activeBatch.frames.filter(f => f.aiStatus !== 'done' && f.aiStatus !== 'pending')).catch(console.error)}
+                          className="mt-4 w-full flex items-center justify-center gap-2 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold transition-colors"
+                        >
+                          <SparklesIcon className="w-3.5 h-3.5" /> AI 分析未标注的帧 ({AI_LANGUAGES[aiLanguage].label})
+                        </button>
+                      )}
+                      <button
+                        onClick={() => reprocessBatch(activeBatch)}
+                        disabled={!hasSource(activeBatch)}
+                        className="mt-2 w-full flex items-center justify-center gap-2 py-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-700 rounded-lg text-xs font-bold transition-colors"
+                        title={hasSource(activeBatch) ? '回到抽帧方案设置，修改后重新处理' : `需先重新选择${sourceLabel(activeBatch)}`}
+                      >
+                        <ArrowPathIcon className="w-3.5 h-3.5" /> 用新设置重新处理
+                      </button>
                     </div>
                   </div>
 
+                  {/* 图片批次没有时间轴，精选帧直接来自源图片 */}
+                  {activeBatch.kind !== 'images' && (
+                    <div className="bg-white p-4 md:p-6 rounded-2xl md:rounded-3xl shadow-sm border border-slate-100">
+                      <h4 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-6 flex items-center gap-2">
+                        <FilmIcon className="w-4 h-4 text-amber-500" /> 时间轴微调
+                      </h4>
+                      <TimelineScrubber
+                        batch={activeBatch}
+                        onCapture={(frame) => addCustomFrame(activeBatch, {
+                          ...frame,
+                          label: `手动截取 - ${(frame.timestamp ?? 0).toFixed(2)}s`,
+                          aiDescription: "高清视频帧提取"
+                        })}
+                      />
+                      {!hasSource(activeBatch) && (
+                        <button
+                          onClick={() => pickSource(activeBatch)}
+                          className="mt-3 px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600"
+                        >
+                          重新选择源视频
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   <div className="space-y-6 md:space-y-8">
                     <h3 className="text-base md:text-lg font-black flex items-center gap-2">
-                      <Cog6ToothIcon className="w-5 h-5" /> 全量候选帧 (各段前三)
+                      <Cog6ToothIcon className="w-5 h-5" /> 全量候选帧 (各段前 {getExtraction(activeBatch).picksPerSegment})
                     </h3>
                     
-                    {[1, 2, 3, 4, 5].map(pId => (
+                    {Array.from({ length: getExtraction(activeBatch).segments }, (_, i) => i + 1).map(pId => (
                       <div key={pId} className="space-y-4">
                         <p className="text-[9px] font-black uppercase text-slate-300 tracking-[0.4em]">分段 {pId}</p>
                         <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 md:gap-6">
                           {activeBatch.frames.filter(f => f.partId === pId).map(frame => (
                             <div 
                               key={frame.id} 
-                              onClick={() => setPreviewImage(frame)}
+                              onClick={() => openPreview(frame)}
                               className="group bg-white rounded-xl md:rounded-2xl overflow-hidden border border-slate-100 hover:shadow-xl transition-all cursor-pointer"
                             >
                               <div className="aspect-square relative bg-slate-50">
                                 <img src={frame.dataUrl} className="w-full h-full object-cover" alt={frame.label} />
-                                <div className={`absolute top-2 left-2 px-1.5 py-0.5 rounded text-[8px] md:text-[10px] font-black text-white ${frame.rankId === 1 ? 'bg-amber-500' : 'bg-slate-400'}`}>
-                                  排名 #{frame.rankId}
+                                <div className={`absolute top-2 left-2 px-1.5 py-0.5 rounded text-[8px] md:text-[10px] font-black text-white ${frame.custom ? 'bg-slate-900' : frame.rankId === 1 ? 'bg-amber-500' : 'bg-slate-400'}`}>
+                                  {frame.custom ? '手动' : `排名 #${frame.rankId}`}
                                 </div>
+                                {frame.globalRank !== undefined && (
+                                  <div className="absolute top-2 right-2 px-1.5 py-0.5 rounded text-[8px] md:text-[10px] font-black text-white bg-emerald-500">
+                                    全局 #{frame.globalRank}
+                                  </div>
+                                )}
                               </div>
                               <div className="p-2 md:p-4">
                                 <p className="text-[10px] md:text-xs font-bold truncate mb-1">{frame.label}</p>
-                                <p className="text-[9px] md:text-[10px] text-slate-400 italic line-clamp-1">清晰度评分: {Math.round(frame.score)}</p>
+                                {frame.shotType && (
+                                  <span className="inline-block mb-1 px-1.5 py-0.5 rounded bg-amber-50 text-amber-600 text-[8px] md:text-[9px] font-bold">{SHOT_TYPES[frame.shotType]}</span>
+                                )}
+                                {frame.aiStatus === 'pending' && (
+                                  <p className="text-[9px] md:text-[10px] text-slate-300 animate-pulse mb-1">AI 分析中...</p>
+                                )}
+                                {frame.aiStatus === 'error' && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      runAiAnalysis(activeBatch.id, [frame]).catch(console.error);
+                                    }}
+                                    title={frame.aiError}
+                                    className="block mb-1 text-[9px] md:text-[10px] text-red-500 font-bold hover:underline"
+                                  >
+                                    AI 分析失败，点击重试
+                                  </button>
+                                )}
+                                {frame.aiStatus === 'done' && frame.aiDescription && (
+                                  <p className="text-[9px] md:text-[10px] text-slate-500 line-clamp-2 mb-1">{frame.aiDescription}</p>
+                                )}
+                                <p className="text-[9px] md:text-[10px] text-slate-400 italic line-clamp-1">
+                                  清晰度评分: {Math.round(frame.score)}
+                                  {frame.sparkle && (
+                                    <span className="text-amber-500 not-italic font-bold" title={`${frame.sparkle.highlights} 个高光 / ${frame.sparkle.fireHighlights} 个火彩光斑`}> · 火彩: {Math.round(frame.sparkle.score)}</span>
+                                  )}
+                                </p>
+                                <MetricBars metrics={frame.metrics} />
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    updateBatch(activeBatch.id, {
+                                      selection: curatedIds.includes(frame.id) ? rejectFrame(activeBatch, frame.id) : pinFrame(activeBatch, frame.id)
+                                    });
+                                  }}
+                                  className={`mt-2 w-full flex items-center justify-center gap-1 py-1 rounded-lg text-[9px] md:text-[10px] font-bold transition-colors ${
+                                    curatedIds.includes(frame.id) ? 'bg-emerald-50 text-emerald-600 hover:bg-red-50 hover:text-red-500' : 'bg-slate-50 text-slate-500 hover:bg-amber-50 hover:text-amber-600'
+                                  }`}
+                                >
+                                  {curatedIds.includes(frame.id) ? (
+                                    <><CheckBadgeIcon className="w-3 h-3" /> 已精选</>
+                                  ) : (
+                                    <><PlusIcon className="w-3 h-3" /> 加入精选</>
+                                  )}
+                                </button>
                               </div>
                             </div>
                           ))}
@@ -396,9 +1169,210 @@ export default function App() {
               )}
 
               {activeBatch.status === ProcessingStatus.QUEUED && (
-                <div className="flex flex-col items-center justify-center h-full opacity-30">
-                  <FolderIcon className="w-16 md:w-20 h-16 md:h-20 mb-4" />
-                  <p className="font-bold text-slate-500">等待开始处理...</p>
+                <div className="flex flex-col items-center justify-center h-full gap-8">
+                  <div className="flex flex-col items-center opacity-30">
+                    <FolderIcon className="w-16 md:w-20 h-16 md:h-20 mb-4" />
+                    <p className="font-bold text-slate-500">等待开始处理...</p>
+                  </div>
+
+                  {activeBatch.metadata && activeBatch.frames.length > 0 && (
+                    <div className="bg-slate-100 p-4 rounded-2xl w-full max-w-md flex items-center justify-between gap-4">
+                      <p className="text-xs text-slate-600">修改下方方案后点击「开始批量生图」重新处理，完成前保留上次的结果。</p>
+                      <button
+                        onClick={() => restoreResult(activeBatch)}
+                        className="shrink-0 px-3 py-2 bg-white hover:bg-slate-50 rounded-lg text-xs font-bold text-slate-600"
+                      >
+                        恢复上次结果
+                      </button>
+                    </div>
+                  )}
+
+                  {!hasSource(activeBatch) && (
+                    <div className="bg-amber-50 border border-amber-100 p-4 rounded-2xl w-full max-w-md flex items-center justify-between gap-4">
+                      <p className="text-xs text-amber-700">页面重新加载后{sourceLabel(activeBatch)}不可用，需重新选择 {activeBatch.fileName}{activeBatch.kind === 'images' ? ' 中的全部图片' : ''} 才能处理。</p>
+                      <button
+                        onClick={() => pickSource(activeBatch)}
+                        className="shrink-0 px-3 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-bold"
+                      >
+                        选择{sourceLabel(activeBatch)}
+                      </button>
+                    </div>
+                  )}
+
+                  <div className="bg-white p-4 md:p-6 rounded-2xl md:rounded-3xl shadow-sm border border-slate-100 w-full max-w-md">
+                    <h4 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-4 flex items-center gap-2">
+                      <Cog6ToothIcon className="w-4 h-4 text-amber-500" /> 抽帧方案
+                    </h4>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {EXTRACTION_PRESETS.map(p => (
+                        <button
+                          key={p.id}
+                          onClick={() => updateBatch(activeBatch.id, { extraction: { ...p.options } })}
+                          title={p.description}
+                          className="px-3 py-1.5 bg-slate-100 hover:bg-amber-50 hover:text-amber-600 text-slate-600 rounded-lg text-[10px] font-bold transition-colors"
+                        >
+                          {p.name}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex bg-slate-100 rounded-lg p-1 mb-4">
+                      {([['sharpness', '清晰度优先'], ['sparkle', '火彩优先']] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => updateExtraction(activeBatch.id, { mode })}
+                          className={`flex-1 py-1.5 rounded-md text-[10px] font-bold transition-colors ${
+                            (activeBatch.extraction.mode || 'sharpness') === mode ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-500'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      {([
+                        ['segments', '分段数', 1],
+                        ['samplesPerSegment', '每段样本', 1],
+                        ['picksPerSegment', '每段保留', 1],
+                        ['topN', '全局精选', DEFAULT_TOP_N],
+                        ['maxPerSegment', '单段精选上限', DEFAULT_MAX_PER_SEGMENT],
+                      ] as const).filter(([key]) => activeBatch.kind !== 'images' || key !== 'samplesPerSegment').map(([key, label, fallback]) => (
+                        <label key={key} className="text-[10px] text-slate-500 font-bold space-y-1">
+                          <span>{label}</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={activeBatch.extraction[key] ?? fallback}
+                            onChange={(e) => updateExtraction(activeBatch.id, { [key]: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                          />
+                        </label>
+                      ))}
+                      {/* 连拍图片逐张评分，没有时间窗与精扫 */}
+                      {activeBatch.kind !== 'images' && (
+                        <>
+                          <label className="col-span-2 flex items-center gap-2 text-[10px] text-slate-500 font-bold" title="先粗扫找出评分峰值，再在峰值附近密集寻帧">
+                            <input
+                              type="checkbox"
+                              checked={!!activeBatch.extraction.refine}
+                              onChange={(e) => updateExtraction(activeBatch.id, {
+                                refine: e.target.checked
+                                  ? { seekBudget: activeBatch.extraction.segments * activeBatch.extraction.samplesPerSegment, coarseRatio: 0.5 }
+                                  : undefined
+                              })}
+                              className="accent-amber-500"
+                            />
+                            <span>峰值精扫 (粗扫 + 精扫)</span>
+                          </label>
+                          {activeBatch.extraction.refine && (
+                            <>
+                              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                                <span>总寻帧预算</span>
+                                <input
+                                  type="number"
+                                  min={activeBatch.extraction.segments}
+                                  value={activeBatch.extraction.refine.seekBudget}
+                                  onChange={(e) => updateExtraction(activeBatch.id, {
+                                    refine: { ...activeBatch.extraction.refine!, seekBudget: Math.max(1, parseInt(e.target.value) || 1) }
+                                  })}
+                                  className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                                />
+                              </label>
+                              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                                <span>粗扫占比</span>
+                                <input
+                                  type="number"
+                                  min={0.1}
+                                  max={1}
+                                  step={0.1}
+                                  value={activeBatch.extraction.refine.coarseRatio}
+                                  onChange={(e) => updateExtraction(activeBatch.id, {
+                                    refine: { ...activeBatch.extraction.refine!, coarseRatio: Math.min(1, Math.max(0.1, parseFloat(e.target.value) || 0.5)) }
+                                  })}
+                                  className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                                />
+                              </label>
+                            </>
+                          )}
+                          <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                            <span>起点 (秒)</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step={0.1}
+                              value={activeBatch.extraction.startTime}
+                              onChange={(e) => updateExtraction(activeBatch.id, { startTime: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                            />
+                          </label>
+                        </>
+                      )}
+                      <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                        <span>终点 (秒，留空至结尾)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={activeBatch.extraction.endTime ?? ''}
+                          onChange={(e) => updateExtraction(activeBatch.id, { endTime: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                        />
+                      </label>
+                      <label className="text-[10px] text-slate-500 font-bold space-y-1" title="感知哈希汉明距离 (0-64)，不超过该值视为重复画面">
+                        <span>相似度阈值</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={64}
+                          value={activeBatch.extraction.dedupe?.maxHashDistance ?? DEFAULT_DEDUPE_OPTIONS.maxHashDistance}
+                          onChange={(e) => updateExtraction(activeBatch.id, {
+                            dedupe: { ...DEFAULT_DEDUPE_OPTIONS, ...activeBatch.extraction.dedupe, maxHashDistance: Math.min(64, Math.max(0, parseInt(e.target.value) || 0)) }
+                          })}
+                          className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                        />
+                      </label>
+                      {activeBatch.kind !== 'images' && (
+                        <label className="text-[10px] text-slate-500 font-bold space-y-1" title="入选帧之间的最小时间间隔">
+                          <span>最小间隔 (秒)</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.05}
+                            value={activeBatch.extraction.dedupe?.minTimeGap ?? DEFAULT_DEDUPE_OPTIONS.minTimeGap}
+                            onChange={(e) => updateExtraction(activeBatch.id, {
+                              dedupe: { ...DEFAULT_DEDUPE_OPTIONS, ...activeBatch.extraction.dedupe, minTimeGap: Math.max(0, parseFloat(e.target.value) || 0) }
+                            })}
+                            className="w-full bg-slate-50 border-none rounded-lg px-3 py-2 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500"
+                          />
+                        </label>
+                      )}
+                    </div>
+                    <h4 className="text-xs font-black uppercase tracking-widest text-slate-400 mt-6 mb-3">评分权重</h4>
+                    <div className="space-y-2">
+                      {(Object.keys(SCORER_REGISTRY) as ScorerId[]).map(id => {
+                        const weight = activeBatch.extraction.weights?.[id] ?? DEFAULT_SCORER_WEIGHTS[id];
+                        return (
+                          <label key={id} className="flex items-center gap-3 text-[10px] text-slate-500 font-bold" title={SCORER_REGISTRY[id].description}>
+                            <span className="w-24 shrink-0 truncate">{SCORER_REGISTRY[id].name}</span>
+                            <input
+                              type="range"
+                              min={0}
+                              max={1}
+                              step={0.05}
+                              value={weight}
+                              onChange={(e) => updateExtraction(activeBatch.id, {
+                                weights: { ...DEFAULT_SCORER_WEIGHTS, ...activeBatch.extraction.weights, [id]: parseFloat(e.target.value) }
+                              })}
+                              className="flex-1 accent-amber-500"
+                            />
+                            <span className="w-8 text-right font-mono">{weight.toFixed(2)}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-4 italic">
+                      共{activeBatch.kind === 'images' ? `评分 ${activeBatch.rawFiles?.length ?? activeBatch.metadata?.imageCount ?? 0} 张图片` : `扫描 ${totalAnalysisSeeks(activeBatch.extraction)} 个样本`}，输出 {activeBatch.extraction.segments * activeBatch.extraction.picksPerSegment} 张候选帧
+                    </p>
+                  </div>
                 </div>
               )}
             </>
@@ -408,7 +1382,7 @@ export default function App() {
                 <SparklesIcon className="w-10 md:w-12 h-10 md:h-12" />
               </div>
               <h2 className="text-xl md:text-2xl font-black text-slate-900 mb-2">JewelSnap Pro V3.2</h2>
-              <p className="text-slate-500 max-w-sm">请选择或批量上传视频以开始智能生图（120帧深度扫描）。</p>
+              <p className="text-slate-500 max-w-sm">请选择或批量上传视频、连拍图片以开始智能生图（支持按视频类型选择抽帧方案）。</p>
               <button 
                 onClick={() => setIsSidebarOpen(true)}
                 className="mt-6 md:hidden px-6 py-3 bg-slate-900 text-white rounded-xl font-bold text-sm"
@@ -420,15 +1394,36 @@ export default function App() {
         </div>
       </main>
 
+      {isSettingsOpen && (
+        <SettingsDialog
+          config={config}
+          sample={namingSample}
+          onChange={(updates) => setConfig(prev => ({ ...prev, ...updates }))}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isStorageOpen && (
+        <StorageManager
+          onPurgeBatch={purgeBatch}
+          onPurgeAll={purgeAll}
+          onClose={() => setIsStorageOpen(false)}
+        />
+      )}
+
+      {mappingReport && (
+        <MappingReport {...mappingReport} onClose={() => setMappingReport(null)} />
+      )}
+
       {/* Image Preview Modal */}
-      {previewImage && (
+      {previewFrame && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 md:p-8 animate-in fade-in duration-200"
           onClick={() => setPreviewImage(null)}
         >
           <div className="relative max-w-5xl w-full h-full flex items-center justify-center" onClick={e => e.stopPropagation()}>
             <img 
-              src={previewImage.dataUrl} 
+              src={showOriginal ? previewFrame.dataUrl : getOutputUrl(previewFrame)} 
               className="max-w-full max-h-full rounded-xl md:rounded-2xl shadow-2xl object-contain border border-white/10" 
               alt="Preview" 
             />
@@ -438,9 +1433,44 @@ export default function App() {
             >
               <XMarkIcon className="w-6 h-6" />
             </button>
+            {previewFrame.processedUrl && (
+              <button
+                onClick={() => setShowOriginal(v => !v)}
+                className="absolute -top-2 md:-top-4 right-12 md:right-10 px-3 py-2 bg-white rounded-full text-black text-xs font-bold hover:bg-slate-100 transition-colors shadow-xl"
+              >
+                {showOriginal ? '处理后' : '原图'}
+              </button>
+            )}
+            {activeBatch && curatedIds.includes(previewFrame.id) && !showOriginal && (
+              <div className="absolute top-2 md:top-4 left-2 md:left-4 bg-white/10 backdrop-blur-md px-4 py-3 rounded-xl text-white w-56 max-h-[calc(100%-8rem)] overflow-y-auto space-y-4">
+                {config.squareOutput && (
+                  <CropControls
+                    frame={previewFrame}
+                    onChange={(crop) => updateFrame(activeBatch.id, previewFrame.id, { crop })}
+                  />
+                )}
+                <ColorControls
+                  adjustments={resolveAdjustments(activeBatch, previewFrame)}
+                  inherited={!previewFrame.adjustments && !!activeBatch.adjustments}
+                  onChange={(adjustments) => updateFrame(activeBatch.id, previewFrame.id, { adjustments })}
+                  onApplyToBatch={(adjustments) => applyAdjustmentsToBatch(activeBatch, adjustments)}
+                />
+              </div>
+            )}
             <div className="absolute bottom-2 md:bottom-4 left-1/2 -translate-x-1/2 bg-white/10 backdrop-blur-md px-4 md:px-6 py-2 md:py-3 rounded-xl md:rounded-2xl text-white text-center w-[calc(100%-2rem)] max-w-sm">
-              <p className="font-bold text-sm md:text-base">{previewImage.label}</p>
-              <p className="text-[10px] md:text-xs opacity-70 italic truncate">清晰度评分: {Math.round(previewImage.score)}</p>
+              <p className="font-bold text-sm md:text-base">
+                {previewFrame.label}
+                {previewFrame.sourceFile && <span className="ml-2 text-[10px] font-normal opacity-70">{previewFrame.sourceFile}</span>}
+                {previewFrame.shotType && <span className="ml-2 text-[10px] font-normal opacity-70">{SHOT_TYPES[previewFrame.shotType]}</span>}
+              </p>
+              {previewFrame.aiStatus === 'done' && previewFrame.aiDescription && (
+                <p className="text-[10px] md:text-xs opacity-90">{previewFrame.aiDescription}</p>
+              )}
+              <p className="text-[10px] md:text-xs opacity-70 italic truncate">
+                清晰度评分: {Math.round(previewFrame.score)}
+                {previewFrame.sparkle && ` · 火彩评分: ${Math.round(previewFrame.sparkle.score)} (${previewFrame.sparkle.fireHighlights} 个火彩光斑)`}
+              </p>
+              <MetricBars metrics={previewFrame.metrics} dark />
             </div>
           </div>
         </div>
@@ -450,10 +1480,33 @@ export default function App() {
         type="file" 
         ref={fileInputRef}
         onChange={handleFileSelect}
-        accept="video/*"
+        accept="video/*,image/*,.heic,.heif"
         multiple
         className="hidden"
       />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileSelect}
+        multiple
+        // React 的类型定义未包含目录选择属性
+        {...{ webkitdirectory: '' }}
+        className="hidden"
+      />
+      <input
+        type="file"
+        ref={sourceInputRef}
+        onChange={handleSourceSelect}
+        accept="video/*"
+        className="hidden"
+      />
+      <input
+        type="file"
+        ref={mappingInputRef}
+        onChange={handleMappingSelect}
+        accept=".csv,.tsv,.txt,.xlsx"
+        className="hidden"
+      />
 
       {!isSidebarOpen && (
         <div className="fixed bottom-4 md:bottom-6 right-4 md:right-6 flex items-center gap-3 z-40">
@@ -462,6 +1515,12 @@ export default function App() {
             <span className="text-[9px] md:text-[10px] font-black uppercase tracking-widest text-slate-600">
               {batches.filter(b => b.status === ProcessingStatus.COMPLETED).length} / {batches.length} 已完成
             </span>
+            {queueEstimate && (
+              <span className="text-[9px] md:text-[10px] font-bold text-slate-400 font-mono" title={`并行 ${concurrency} 个视频`}>
+                {queueEstimate.throughput > 0 ? `${queueEstimate.throughput.toFixed(1)} 个/分` : '估算中'}
+                {queueEstimate.eta !== undefined && ` · 剩余约 ${formatDuration(queueEstimate.eta)}`}
+              </span>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ColorAdjustments, MetalPreset } from '../types';
+import { DEFAULT_COLOR_ADJUSTMENTS, METAL_PRESETS } from '../services/colorCorrection';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+interface ColorControlsProps {
+  adjustments?: ColorAdjustments;
+  inherited: boolean; // 当前显示的是批次级设置
+  onChange: (adjustments: ColorAdjustments | undefined) => void;
+  onApplyToBatch: (adjustments: ColorAdjustments) => void;
+}
+
+/**
+ * 色彩校正：金属色调预设、自动白平衡与曝光/对比度/饱和度滑块
+ */
+export default function ColorControls({ adjustments, inherited, onChange, onApplyToBatch }: ColorControlsProps) {
+  const adj = adjustments || DEFAULT_COLOR_ADJUSTMENTS;
+
+  const sliders: { key: 'exposure' | 'contrast' | 'vibrance'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'exposure', label: '曝光', min: -2, max: 2, step: 0.05 },
+    { key: 'contrast', label: '对比', min: -1, max: 1, step: 0.05 },
+    { key: 'vibrance', label: '饱和', min: -1, max: 1, step: 0.05 },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest opacity-70">色彩校正{inherited ? ' (批次)' : ''}</p>
+        {adjustments && !inherited && (
+          <button onClick={() => onChange(undefined)} className="flex items-center gap-1 text-[10px] font-bold opacity-70 hover:opacity-100">
+            <ArrowUturnLeftIcon className="w-3 h-3" /> 重置
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-1">
+        {(Object.keys(METAL_PRESETS) as MetalPreset[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange({ ...adj, preset: id })}
+            className={`px-1 py-1 rounded text-[10px] font-bold ${adj.preset === id ? 'bg-amber-500 text-white' : 'bg-white/10 hover:bg-white/20'}`}
+          >
+            {METAL_PRESETS[id].label}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-[10px]">
+        <input
+          type="checkbox"
+          checked={adj.autoWhiteBalance}
+          onChange={(e) => onChange({ ...adj, autoWhiteBalance: e.target.checked })}
+          className="accent-amber-500"
+        />
+        自动白平衡
+      </label>
+      {sliders.map(({ key, label, min, max, step }) => (
+        <label key={key} className="flex items-center gap-2 text-[10px]">
+          <span className="w-8 shrink-0 opacity-70">{label}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={adj[key]}
+            onChange={(e) => onChange({ ...adj, [key]: parseFloat(e.target.value) })}
+            className="flex-1 accent-amber-500"
+          />
+          <span className="w-8 text-right font-mono">{adj[key].toFixed(2)}</span>
+        </label>
+      ))}
+      <button
+        onClick={() => onApplyToBatch(adj)}
+        className="w-full py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold"
+      >
+        应用到本批全部精选
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CropOverride, Keyframe } from '../types';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+interface CropControlsProps {
+  frame: Keyframe;
+  onChange: (crop: CropOverride | undefined) => void;
+}
+
+/**
+ * 方形主图的手动裁剪：以自动检测的商品区域为基准平移与缩放
+ */
+export default function CropControls({ frame, onChange }: CropControlsProps) {
+  const region = frame.productRegion;
+  const crop: CropOverride = frame.crop || {
+    cx: region ? region.x + region.width / 2 : 0.5,
+    cy: region ? region.y + region.height / 2 : 0.5,
+    zoom: 1
+  };
+
+  const sliders: { key: keyof CropOverride; label: string; min: number; max: number; step: number }[] = [
+    { key: 'zoom', label: '缩放', min: 0.5, max: 3, step: 0.05 },
+    { key: 'cx', label: '水平', min: 0, max: 1, step: 0.005 },
+    { key: 'cy', label: '垂直', min: 0, max: 1, step: 0.005 },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest opacity-70">方形裁剪{frame.crop ? ' (手动)' : ' (自动)'}</p>
+        {frame.crop && (
+          <button onClick={() => onChange(undefined)} className="flex items-center gap-1 text-[10px] font-bold opacity-70 hover:opacity-100">
+            <ArrowUturnLeftIcon className="w-3 h-3" /> 自动
+          </button>
+        )}
+      </div>
+      {sliders.map(({ key, label, min, max, step }) => (
+        <label key={key} className="flex items-center gap-2 text-[10px]">
+          <span className="w-8 shrink-0 opacity-70">{label}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={crop[key]}
+            onChange={(e) => onChange({ ...crop, [key]: parseFloat(e.target.value) })}
+            className="flex-1 accent-amber-500"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
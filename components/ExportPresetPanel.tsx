@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportPreset } from '../types';
+import { EXPORT_FORMATS, describePreset } from '../services/exportPresets';
+import { ChevronDownIcon } from '@heroicons/react/24/outline';
+
+interface ExportPresetPanelProps {
+  presets: ExportPreset[];
+  onChange: (presets: ExportPreset[]) => void;
+}
+
+const MB = 1024 * 1024;
+const inputClass = 'w-full bg-slate-50 border-none rounded-lg px-2 py-1 font-mono text-xs text-slate-900 focus:ring-2 focus:ring-amber-500';
+
+/**
+ * 导出预设：勾选要导出的渠道，展开后可修改格式、质量与尺寸限制
+ */
+export default function ExportPresetPanel({ presets, onChange }: ExportPresetPanelProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const update = (id: string, updates: Partial<ExportPreset>) => {
+    onChange(presets.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+  // 空输入表示不限制
+  const optionalNumber = (value: string, scale = 1) => {
+    const n = parseFloat(value);
+    return n > 0 ? Math.round(n * scale) : undefined;
+  };
+
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">导出预设</p>
+      {presets.map(preset => (
+        <div key={preset.id} className="rounded-lg bg-slate-50">
+          <div className="flex items-center gap-2 px-2 py-1.5">
+            <input
+              type="checkbox"
+              checked={preset.enabled}
+              onChange={(e) => update(preset.id, { enabled: e.target.checked })}
+              className="accent-amber-500"
+            />
+            <button
+              onClick={() => setExpandedId(expandedId === preset.id ? null : preset.id)}
+              className="flex-1 flex items-center justify-between gap-2 text-left min-w-0"
+            >
+              <span className="min-w-0">
+                <span className="block text-xs font-bold text-slate-600 truncate">{preset.name}</span>
+                <span className="block text-[9px] text-slate-400 font-mono truncate">{describePreset(preset)}</span>
+              </span>
+              <ChevronDownIcon className={`w-3 h-3 shrink-0 text-slate-400 transition-transform ${expandedId === preset.id ? 'rotate-180' : ''}`} />
+            </button>
+          </div>
+          {expandedId === preset.id && (
+            <div className="grid grid-cols-2 gap-2 px-2 pb-2">
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>格式</span>
+                <select
+                  value={preset.format}
+                  onChange={(e) => update(preset.id, { format: e.target.value as ExportFormat })}
+                  className={inputClass}
+                >
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                    <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>质量</span>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={1}
+                  step={0.01}
+                  value={preset.quality}
+                  disabled={!EXPORT_FORMATS[preset.format].lossy}
+                  onChange={(e) => update(preset.id, { quality: Math.min(1, Math.max(0.5, parseFloat(e.target.value) || 0.9)) })}
+                  className={`${inputClass} disabled:opacity-40`}
+                />
+              </label>
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>长边上限 (px)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={preset.maxLongEdge ?? ''}
+                  placeholder="不限"
+                  onChange={(e) => update(preset.id, { maxLongEdge: optionalNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>长边下限 (px)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={preset.minLongEdge ?? ''}
+                  placeholder="不限"
+                  onChange={(e) => update(preset.id, { minLongEdge: optionalNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-[10px] text-slate-500 font-bold space-y-1">
+                <span>文件上限 (MB)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={preset.maxFileSize ? +(preset.maxFileSize / MB).toFixed(2) : ''}
+                  placeholder="不限"
+                  onChange={(e) => update(preset.id, { maxFileSize: optionalNumber(e.target.value, MB) })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
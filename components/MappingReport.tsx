@@ -0,0 +1,75 @@
+import React from 'react';
+import { MappingResult } from '../services/productMapping';
+import { CheckBadgeIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface MappingReportProps {
+  fileName: string;
+  result?: MappingResult;
+  error?: string;
+  onClose: () => void;
+}
+
+/**
+ * 商品表导入结果：匹配数量、文件名重复的行、表中未匹配的行与队列中未匹配的视频
+ */
+export default function MappingReport({ fileName, result, error, onClose }: MappingReportProps) {
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-4 max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-bold text-slate-900 truncate">导入商品表 · {fileName}</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-900 shrink-0">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-500 font-bold">{error}</p>}
+
+        {result && (
+          <>
+            <p className="flex items-center gap-2 text-xs font-bold text-emerald-600">
+              <CheckBadgeIcon className="w-4 h-4" /> 已匹配 {result.matched.length} 个视频
+            </p>
+
+            {result.conflicts.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">文件名重复，未套用 ({result.conflicts.length})</p>
+                <ul className="text-[10px] font-mono text-red-600 bg-red-50 rounded-lg p-2 space-y-0.5 max-h-40 overflow-y-auto">
+                  {result.conflicts.map(conflict => (
+                    <li key={conflict.rows[0].line}>第 {conflict.rows.map(row => row.line).join('、')} 行: {conflict.file}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.unmatchedRows.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">表中未匹配的行 ({result.unmatchedRows.length})</p>
+                <ul className="text-[10px] font-mono text-slate-600 bg-slate-50 rounded-lg p-2 space-y-0.5 max-h-40 overflow-y-auto">
+                  {result.unmatchedRows.map(row => (
+                    <li key={row.line}>第 {row.line} 行: {row.file}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.unmatchedBatches.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">队列中未匹配的视频 ({result.unmatchedBatches.length})</p>
+                <ul className="text-[10px] font-mono text-slate-600 bg-slate-50 rounded-lg p-2 space-y-0.5 max-h-40 overflow-y-auto">
+                  {result.unmatchedBatches.map(batch => (
+                    <li key={batch.id}>{batch.fileName}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <p className="text-[10px] text-slate-400">
+              映射会保留到本次会话结束，之后上传的同名视频自动套用。商品属性可在命名模板中以 {'{sku}'}、{'{color}'} 等字段使用，并写入导出清单。
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
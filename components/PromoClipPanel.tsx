@@ -0,0 +1,79 @@
+import React from 'react';
+import { PromoClipSettings, PromoFormat, PromoLoopMode } from '../types';
+import { PROMO_DURATIONS } from '../services/promoClip';
+
+interface PromoClipPanelProps {
+  settings: PromoClipSettings;
+  onChange: (settings: PromoClipSettings) => void;
+}
+
+const FORMAT_LABELS: Record<PromoFormat, string> = { webm: 'WebM', webp: '动图 WebP', gif: 'GIF' };
+
+const LOOP_LABELS: Record<PromoLoopMode, string> = { none: '播放一次', loop: '循环', boomerang: '往返' };
+
+const selectClass = 'w-full bg-slate-50 border-none rounded-lg px-2 py-1 text-xs text-slate-900 focus:ring-2 focus:ring-amber-500';
+
+/**
+ * 商品短视频：导出 ZIP 时按评分最高的时间段生成短视频与动图
+ */
+export default function PromoClipPanel({ settings, onChange }: PromoClipPanelProps) {
+  const update = (updates: Partial<PromoClipSettings>) => onChange({ ...settings, ...updates });
+  const toggleFormat = (format: PromoFormat, enabled: boolean) => update({
+    formats: enabled ? [...settings.formats, format] : settings.formats.filter(f => f !== format)
+  });
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs font-bold text-slate-600" title="导出 ZIP 时剪辑最清晰的片段，生成 3-6 秒短视频与动图">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-amber-500"
+        />
+        商品短视频 / 动图
+      </label>
+      {settings.enabled && (
+        <div className="space-y-2 pl-5">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[10px] text-slate-500 font-bold space-y-1">
+              <span>时长</span>
+              <select value={settings.duration} onChange={(e) => update({ duration: parseInt(e.target.value) })} className={selectClass}>
+                {PROMO_DURATIONS.map(d => <option key={d} value={d}>{d} 秒</option>)}
+              </select>
+            </label>
+            <label className="text-[10px] text-slate-500 font-bold space-y-1">
+              <span>播放</span>
+              <select value={settings.loop} onChange={(e) => update({ loop: e.target.value as PromoLoopMode })} className={selectClass}>
+                {(Object.keys(LOOP_LABELS) as PromoLoopMode[]).map(mode => <option key={mode} value={mode}>{LOOP_LABELS[mode]}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500" title="以第一张精选的商品区域为中心裁剪">
+              <input type="checkbox" checked={settings.square} onChange={(e) => update({ square: e.target.checked })} className="accent-amber-500" />
+              方形裁剪
+            </label>
+            <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500" title="最清晰处慢放，其余快进">
+              <input type="checkbox" checked={settings.speedRamp} onChange={(e) => update({ speedRamp: e.target.checked })} className="accent-amber-500" />
+              变速
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {(Object.keys(FORMAT_LABELS) as PromoFormat[]).map(format => (
+              <label key={format} className="flex items-center gap-1 text-[10px] font-bold text-slate-500">
+                <input
+                  type="checkbox"
+                  checked={settings.formats.includes(format)}
+                  onChange={(e) => toggleFormat(format, e.target.checked)}
+                  className="accent-amber-500"
+                />
+                {FORMAT_LABELS[format]}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
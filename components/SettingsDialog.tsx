@@ -0,0 +1,109 @@
+import React from 'react';
+import { AppConfig } from '../types';
+import { DEFAULT_FILE_NAME_TEMPLATE, NAMING_TOKENS, NamingContext, findUnknownTokens, renderFileName } from '../services/fileNaming';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface SettingsDialogProps {
+  config: AppConfig;
+  sample: NamingContext; // 文件名预览使用的帧信息
+  onChange: (updates: Partial<AppConfig>) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-50 border-none rounded-lg px-3 py-2 text-xs text-slate-900 focus:ring-2 focus:ring-amber-500 disabled:opacity-40';
+
+/**
+ * 全局设置：文件命名模板与导出图片写入的 EXIF/XMP 版权信息
+ */
+export default function SettingsDialog({ config, sample, onChange, onClose }: SettingsDialogProps) {
+  const { metadata, fileNameTemplate } = config;
+  const unknown = findUnknownTokens(fileNameTemplate, sample);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-4 max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="font-bold text-slate-900">设置</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-900">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">文件命名</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={fileNameTemplate}
+              onChange={(e) => onChange({ fileNameTemplate: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              onClick={() => onChange({ fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE })}
+              className="px-2 text-[10px] font-bold text-slate-400 hover:text-amber-500 shrink-0"
+            >
+              默认
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-500 font-mono break-all">预览: {renderFileName(fileNameTemplate, sample)}.jpg</p>
+          {unknown.length > 0 && (
+            <p className="text-[10px] text-red-500">未知字段: {unknown.join(', ')}</p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {Object.keys(sample).map(token => (
+              <button
+                key={token}
+                onClick={() => onChange({ fileNameTemplate: `${fileNameTemplate}{${token}}` })}
+                title={NAMING_TOKENS.find(t => t.token === token)?.description}
+                className="px-1.5 py-0.5 bg-slate-100 hover:bg-amber-100 rounded text-[10px] font-mono text-slate-600"
+              >
+                {`{${token}}`}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400">
+            {'{index:02}'} 补零到 2 位，{'{timestamp:.1}'} 保留 1 位小数。非法字符会替换为下划线，重名文件自动追加序号。
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">元数据</p>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+            <input
+              type="checkbox"
+              checked={metadata.embed}
+              onChange={(e) => onChange({ metadata: { ...metadata, embed: e.target.checked } })}
+              className="accent-amber-500"
+            />
+            导出 JPEG 时写入 EXIF/XMP 元数据
+          </label>
+          <p className="text-[10px] text-slate-400">
+            包含商品编码、源文件名、视频指纹、帧时间戳、清晰度评分、AI 标签与文案及拍摄日期，便于素材库回溯来源。
+          </p>
+          <label className="block text-[10px] text-slate-500 font-bold space-y-1">
+            <span>作者 (Artist)</span>
+            <input
+              type="text"
+              value={metadata.artist}
+              disabled={!metadata.embed}
+              onChange={(e) => onChange({ metadata: { ...metadata, artist: e.target.value } })}
+              placeholder="例如：JewelSnap 摄影组"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-[10px] text-slate-500 font-bold space-y-1">
+            <span>版权 (Copyright)</span>
+            <input
+              type="text"
+              value={metadata.copyright}
+              disabled={!metadata.embed}
+              onChange={(e) => onChange({ metadata: { ...metadata, copyright: e.target.value } })}
+              placeholder="例如：© 2026 JewelSnap"
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
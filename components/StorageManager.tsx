@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { getStorageUsage, StorageUsage } from '../services/batchStore';
+import { TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface StorageManagerProps {
+  onPurgeBatch: (id: string) => Promise<void>;
+  onPurgeAll: () => Promise<void>;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+/**
+ * 本地存储占用：按批次列出图片占用，可单独或全部清除
+ */
+export default function StorageManager({ onPurgeBatch, onPurgeAll, onClose }: StorageManagerProps) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = () => getStorageUsage().then(setUsage).catch(err => console.error('Storage estimate failed', err));
+  useEffect(() => { refresh(); }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      await refresh();
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-4 max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="font-bold text-slate-900">本地存储</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-900">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!usage ? (
+          <p className="text-xs text-slate-400">正在统计...</p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-slate-500">已保存图片:</span>
+                <span className="font-mono">{formatBytes(usage.total)}</span>
+              </div>
+              {usage.usage !== undefined && usage.quota !== undefined && (
+                <>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-slate-500">站点占用 / 配额:</span>
+                    <span className="font-mono">{formatBytes(usage.usage)} / {formatBytes(usage.quota)}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-500" style={{ width: `${Math.min(100, (usage.usage / Math.max(1, usage.quota)) * 100)}%` }} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {usage.batches.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">暂无保存的批次。</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {usage.batches.map(b => (
+                  <li key={b.id} className="flex items-center justify-between gap-2 py-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-bold truncate">{b.productKey}</p>
+                      <p className="text-[10px] text-slate-400 font-mono">{b.images} 张 · {formatBytes(b.bytes)}</p>
+                    </div>
+                    <button
+                      onClick={() => run(() => onPurgeBatch(b.id))}
+                      disabled={isBusy}
+                      className="p-2 text-slate-300 hover:text-red-500 disabled:opacity-40"
+                      title="删除该批次"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={() => {
+                if (window.confirm('确定清除全部本地保存的批次与图片？此操作不可撤销。')) run(onPurgeAll);
+              }}
+              disabled={isBusy || usage.batches.length === 0}
+              className="w-full py-2 bg-red-50 hover:bg-red-100 disabled:opacity-40 text-red-600 rounded-xl font-bold text-xs"
+            >
+              清除全部
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
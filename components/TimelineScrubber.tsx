@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Keyframe, ProductBatch } from '../types';
+import { captureKeyframe, frameStep } from '../services/videoProcessor';
+import { getCuratedFrames } from '../services/curation';
+import { CameraIcon, ChevronLeftIcon, ChevronRightIcon, FilmIcon } from '@heroicons/react/24/outline';
+
+interface TimelineScrubberProps {
+  batch: ProductBatch;
+  onCapture: (frame: Keyframe) => void;
+}
+
+/**
+ * 时间轴微调：显示源视频与第一阶段评分曲线，可在任意时间点逐帧微调并截取高清帧
+ */
+export default function TimelineScrubber({ batch, onCapture }: TimelineScrubberProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [time, setTime] = useState(0);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  useEffect(() => {
+    if (!batch.rawFile) return;
+    const url = URL.createObjectURL(batch.rawFile);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [batch.rawFile]);
+
+  const duration = batch.metadata?.duration || 0;
+  const curve = batch.metadata?.scoreCurve || [];
+  const curatedIds = getCuratedFrames(batch).map(f => f.id);
+  const step = frameStep(batch.metadata);
+
+  if (!batch.rawFile || !batch.metadata || duration === 0) {
+    return (
+      <p className="text-xs text-slate-400 italic">源视频不可用，无法进行时间轴微调。</p>
+    );
+  }
+
+  const seek = (t: number) => {
+    const clamped = Math.min(duration, Math.max(0, t));
+    if (videoRef.current) videoRef.current.currentTime = clamped;
+    setTime(clamped);
+  };
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || !batch.metadata || isCapturing) return;
+    setIsCapturing(true);
+    try {
+      if (video.seeking) {
+        await new Promise(r => video.addEventListener('seeked', r, { once: true }));
+      }
+      onCapture(await captureKeyframe(video, batch.metadata));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // 评分曲线折线 (viewBox 1000 x 100)
+  const maxScore = Math.max(1, ...curve.map(p => p.score));
+  const path = curve
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${(p.time / duration) * 1000},${100 - (p.score / maxScore) * 90}`)
+    .join(' ');
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-black rounded-xl overflow-hidden aspect-video flex items-center justify-center">
+        {src && (
+          <video
+            ref={videoRef}
+            src={src}
+            muted
+            playsInline
+            preload="auto"
+            onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+            className="max-w-full max-h-full"
+          />
+        )}
+      </div>
+
+      <div className="relative h-16 bg-slate-50 rounded-lg overflow-hidden">
+        <svg viewBox="0 0 1000 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <path d={path} fill="none" stroke="#f59e0b" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+        </svg>
+        {batch.frames.filter(f => f.timestamp !== undefined).map(f => (
+          <button
+            key={f.id}
+            onClick={() => seek(f.timestamp!)}
+            title={`${f.label || f.id} @ ${f.timestamp!.toFixed(2)}s`}
+            className={`absolute top-0 bottom-0 w-1 -ml-0.5 ${curatedIds.includes(f.id) ? 'bg-emerald-500' : 'bg-slate-300'} hover:bg-amber-500`}
+            style={{ left: `${(f.timestamp! / duration) * 100}%` }}
+          />
+        ))}
+        <div className="absolute top-0 bottom-0 w-px bg-slate-900 pointer-events-none" style={{ left: `${(time / duration) * 100}%` }} />
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={step}
+        value={time}
+        onChange={(e) => seek(parseFloat(e.target.value))}
+        className="w-full accent-amber-500"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => seek(time - step)} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-lg" title="后退 1 帧">
+            <ChevronLeftIcon className="w-4 h-4" />
+          </button>
+          <span className="font-mono text-xs w-20 text-center">{time.toFixed(3)}s</span>
+          <button onClick={() => seek(time + step)} className="p-2 bg-slate-100 hover:bg-slate-200 rounded-lg" title="前进 1 帧">
+            <ChevronRightIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <button
+          onClick={capture}
+          disabled={isCapturing}
+          className="flex items-center gap-2 px-3 py-2 bg-slate-900 disabled:bg-slate-300 text-white rounded-lg text-xs font-bold"
+        >
+          {isCapturing ? <FilmIcon className="w-3.5 h-3.5 animate-pulse" /> : <CameraIcon className="w-3.5 h-3.5" />}
+          截取当前帧
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { muxAnimatedWebp, readWebpImageChunks } from './animatedWebp';
+
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0));
+const le32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+const le24 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const chunk = (type: string, payload: number[]) =>
+  [...ascii(type), ...le32(payload.length), ...payload, ...(payload.length & 1 ? [0] : [])];
+
+// 静态 WebP 文件：RIFF 头 + 给定的块
+const webp = (...chunks: number[][]) => {
+  const body = [...ascii('WEBP'), ...chunks.flat()];
+  return Uint8Array.from([...ascii('RIFF'), ...le32(body.length), ...body]);
+};
+
+interface RiffChunk {
+  type: string;
+  size: number;
+  payload: Uint8Array;
+}
+
+/**
+ * 按 RIFF 规则遍历块：小端 32 位长度，奇数长度补齐一个字节
+ */
+function parseChunks(bytes: Uint8Array, start: number, end: number): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  for (let offset = start; offset < end;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: String.fromCharCode(...bytes.subarray(offset, offset + 4)), size, payload: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+    expect(offset).toBeLessThanOrEqual(end);
+  }
+  return chunks;
+}
+
+const lossy = webp(chunk('VP8 ', [1, 2, 3]), chunk('EXIF', [9, 9]));
+const lossless = webp(chunk('VP8X', new Array(10).fill(0)), chunk('ALPH', [7]), chunk('VP8L', [4, 5, 6, 7]));
+
+describe('readWebpImageChunks', () => {
+  it('只保留图像数据块 (含补齐字节)，VP8L / ALPH 视为带透明度', () => {
+    expect(readWebpImageChunks(lossy)).toEqual({ chunks: Uint8Array.from(chunk('VP8 ', [1, 2, 3])), alpha: false });
+    expect(readWebpImageChunks(lossless)).toEqual({
+      chunks: Uint8Array.from([...chunk('ALPH', [7]), ...chunk('VP8L', [4, 5, 6, 7])]),
+      alpha: true
+    });
+  });
+
+  it('不是 WebP 或没有图像块时返回 null', () => {
+    expect(readWebpImageChunks(Uint8Array.from([0xff, 0xd8, ...new Array(30).fill(0)]))).toBeNull();
+    expect(readWebpImageChunks(webp(chunk('EXIF', [1, 2, 3, 4])))).toBeNull();
+  });
+});
+
+describe('muxAnimatedWebp', () => {
+  it('RIFF / VP8X / ANIM / ANMF 布局与帧参数', async () => {
+    const blob = muxAnimatedWebp([lossy, lossless], 320, 240, { frameMs: 67, loopCount: 0 })!;
+    expect(blob.type).toBe('image/webp');
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('RIFF');
+    expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+    expect(String.fromCharCode(...bytes.subarray(8, 12))).toBe('WEBP');
+
+    const chunks = parseChunks(bytes, 12, bytes.length);
+    expect(chunks.map(c => c.type)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+
+    const [vp8x, anim, ...frames] = chunks;
+    expect(vp8x.payload[0]).toBe(0x02 | 0x10); // 动画 + 透明度
+    expect([le24(vp8x.payload, 4) + 1, le24(vp8x.payload, 7) + 1]).toEqual([320, 240]);
+    expect(Array.from(anim.payload)).toEqual([0xff, 0xff, 0xff, 0xff, 0, 0]);
+
+    frames.forEach((frame, i) => {
+      const p = frame.payload;
+      expect([le24(p, 0), le24(p, 3)]).toEqual([0, 0]);
+      expect([le24(p, 6) + 1, le24(p, 9) + 1]).toEqual([320, 240]);
+      expect(le24(p, 12)).toBe(67);
+      expect(p[15]).toBe(0x02);
+      const nested = parseChunks(p, 16, p.length).map(c => c.type);
+      expect(nested, `frame ${i}`).toEqual(i === 0 ? ['VP8 '] : ['ALPH', 'VP8L']);
+    });
+  });
+
+  it('不透明帧不设置透明度标志，循环次数按小端写入', async () => {
+    const bytes = new Uint8Array(await muxAnimatedWebp([lossy], 2, 2, { frameMs: 100, loopCount: 300 })!.arrayBuffer());
+    const [vp8x, anim] = parseChunks(bytes, 12, bytes.length);
+    expect(vp8x.payload[0]).toBe(0x02);
+    expect([anim.payload[4], anim.payload[5]]).toEqual([300 & 0xff, 300 >> 8]);
+  });
+
+  it('没有帧或任一帧不是 WebP 时返回 null', () => {
+    expect(muxAnimatedWebp([], 1, 1, { frameMs: 100, loopCount: 0 })).toBeNull();
+    expect(muxAnimatedWebp([lossy, Uint8Array.from(new Array(24).fill(0))], 1, 1, { frameMs: 100, loopCount: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+
+/**
+ * 动图 WebP 封装：浏览器只能编码静态 WebP，将逐帧编码的静态图的 VP8 / VP8L (及 ALPH) 数据
+ * 装入 ANMF 帧，组装为带 VP8X + ANIM 头的动画 WebP
+ */
+
+const ascii = (text: string) => Array.from(text, ch => ch.charCodeAt(0));
+const u24 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff];
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+
+function chunk(type: string, payload: Uint8Array): Uint8Array {
+  // 块大小为奇数时补一个字节
+  const out = new Uint8Array(8 + payload.length + (payload.length & 1));
+  out.set([...ascii(type), ...u32(payload.length)]);
+  out.set(payload, 8);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+}
+
+/**
+ * 取出静态 WebP 中的图像数据块 (纯函数)；不是 WebP 时返回 null
+ */
+export function readWebpImageChunks(file: Uint8Array): { chunks: Uint8Array; alpha: boolean } | null {
+  const fourcc = (offset: number) => String.fromCharCode(...file.subarray(offset, offset + 4));
+  if (file.length < 20 || fourcc(0) !== 'RIFF' || fourcc(8) !== 'WEBP') return null;
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const parts: Uint8Array[] = [];
+  let alpha = false;
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const type = fourcc(offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      parts.push(file.subarray(offset, Math.min(end, file.length)));
+      if (type !== 'VP8 ') alpha = true;
+    }
+    offset = end;
+  }
+  return parts.length > 0 ? { chunks: concat(parts), alpha } : null;
+}
+
+/**
+ * 组装动画 WebP；frames 为同尺寸的静态 WebP 文件，loopCount 为 0 表示无限循环
+ */
+export function muxAnimatedWebp(
+  frames: Uint8Array[],
+  width: number,
+  height: number,
+  options: { frameMs: number; loopCount: number }
+): Blob | null {
+  const images = frames.map(readWebpImageChunks);
+  if (images.length === 0 || images.some(img => !img)) return null;
+  const alpha = images.some(img => img!.alpha);
+
+  const vp8x = chunk('VP8X', Uint8Array.from([0x02 | (alpha ? 0x10 : 0), 0, 0, 0, ...u24(width - 1), ...u24(height - 1)]));
+  const anim = chunk('ANIM', Uint8Array.from([0xff, 0xff, 0xff, 0xff, options.loopCount & 0xff, (options.loopCount >> 8) & 0xff]));
+  const anmf = images.map(img => chunk('ANMF', concat([
+    // 偏移 (0, 0)、帧尺寸、时长；标志位 0x02 表示不与上一帧混合
+    Uint8Array.from([...u24(0), ...u24(0), ...u24(width - 1), ...u24(height - 1), ...u24(options.frameMs), 0x02]),
+    img!.chunks
+  ])));
+
+  const body = concat([Uint8Array.from(ascii('WEBP')), vp8x, anim, ...anmf]);
+  return new Blob([Uint8Array.from([...ascii('RIFF'), ...u32(body.length)]), body], { type: 'image/webp' });
+}
@@ -0,0 +1,224 @@
+
+import JSZip from 'jszip';
+import { AppConfig, Keyframe, ProcessingStatus, ProductAttributes, ProductBatch } from '../types';
+import { getCuratedFrames } from './curation';
+import { getOutputUrl } from './renderPipeline';
+import { buildImageMetadata, exportFrame, getActivePresets } from './exportPresets';
+import { buildNamingContext, renderFileName, sanitizeFileName, uniqueFileName } from './fileNaming';
+import { canRenderPromo, renderPromoClip } from './promoClip';
+
+/**
+ * ZIP 归档：每个商品一个文件夹、每个导出预设一个子文件夹 (开启短视频时另有 promo 子文件夹)，
+ * 并附带 manifest.csv / manifest.json
+ */
+
+export interface ManifestEntry {
+  productKey: string;
+  status: ProcessingStatus;
+  path: string;         // ZIP 内路径，未导出时为空
+  preset: string;
+  sourceFile: string;
+  videoId: string;
+  timestamp: number | '';
+  score: number | '';
+  globalRank: number | '';
+  label: string;
+  description: string;
+  error: string;
+  attributes: ProductAttributes; // 商品表导入的属性，CSV 中展开为单独的列
+}
+
+export interface ArchiveProgress {
+  done: number;  // 已编码的图片数
+  total: number;
+  phase: 'encode' | 'clip' | 'zip';
+  percent: number; // 短视频生成或打包阶段的进度 0-100
+  productKey?: string; // 正在生成短视频的商品
+}
+
+const MANIFEST_COLUMNS: Exclude<keyof ManifestEntry, 'attributes'>[] = [
+  'productKey', 'status', 'path', 'preset', 'sourceFile', 'videoId',
+  'timestamp', 'score', 'globalRank', 'label', 'description', 'error'
+];
+
+// 打包输出累积到该大小后合并为 Blob，交由浏览器管理 (可换出到磁盘)，避免大量小块常驻内存
+const FLUSH_BYTES = 8 * 1024 * 1024;
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 生成 CSV (纯函数)，带 UTF-8 BOM 以便 Excel 正确识别中文；所有批次出现过的属性各占一列
+ */
+export function buildManifestCsv(entries: ManifestEntry[]): string {
+  const attributeColumns = [...new Set(entries.flatMap(entry => Object.keys(entry.attributes)))];
+  const rows = entries.map(entry => [
+    ...MANIFEST_COLUMNS.map(col => csvCell(entry[col])),
+    ...attributeColumns.map(col => csvCell(entry.attributes[col] || ''))
+  ].join(','));
+  return '\uFEFF' + [[...MANIFEST_COLUMNS, ...attributeColumns].map(csvCell).join(','), ...rows].join('\r\n');
+}
+
+function baseEntry(batch: ProductBatch): ManifestEntry {
+  return {
+    productKey: batch.productKey,
+    status: batch.status,
+    path: '',
+    preset: '',
+    sourceFile: batch.fileName,
+    videoId: batch.metadata?.videoId || '',
+    timestamp: '',
+    score: '',
+    globalRank: '',
+    label: '',
+    description: '',
+    error: batch.error || '',
+    attributes: batch.attributes || {}
+  };
+}
+
+function frameEntry(batch: ProductBatch, frame: Keyframe, path: string, preset: string): ManifestEntry {
+  return {
+    ...baseEntry(batch),
+    path,
+    preset,
+    sourceFile: frame.sourceFile || batch.fileName,
+    timestamp: frame.timestamp !== undefined ? Math.round(frame.timestamp * 1000) / 1000 : '',
+    score: Math.round(frame.score * 10) / 10,
+    globalRank: frame.globalRank ?? '',
+    label: frame.label || '',
+    description: frame.aiStatus === 'done' ? frame.aiDescription || '' : ''
+  };
+}
+
+const countImages = (batches: ProductBatch[], config: AppConfig) =>
+  batches
+    .filter(b => b.status === ProcessingStatus.COMPLETED)
+    .reduce((sum, b) => sum + getCuratedFrames(b).length, 0) * getActivePresets(config.exportPresets).length;
+
+/**
+ * 将批次写入 ZIP：已完成的批次逐张编码导出，其余批次 (含出错) 只记录到清单
+ */
+export async function addBatchesToZip(
+  zip: JSZip,
+  batches: ProductBatch[],
+  config: AppConfig,
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<ManifestEntry[]> {
+  const manifest: ManifestEntry[] = [];
+  const presets = getActivePresets(config.exportPresets);
+  const usedFolders = new Set<string>();
+  const total = countImages(batches, config);
+  let done = 0;
+
+  for (const batch of batches) {
+    if (batch.status !== ProcessingStatus.COMPLETED) {
+      manifest.push(baseEntry(batch));
+      continue;
+    }
+
+    // 同名商品编码的多个视频分到不同文件夹
+    const folderName = uniqueFileName(sanitizeFileName(batch.productKey), '', usedFolders);
+    const frames = getCuratedFrames(batch);
+    for (const preset of presets) {
+      const used = new Set<string>();
+      // 逐张编码，内存中只保留当前一张的像素数据
+      for (const [index, frame] of frames.entries()) {
+        const result = await exportFrame(getOutputUrl(frame), preset, buildImageMetadata(batch, frame, config.metadata));
+        const name = renderFileName(config.fileNameTemplate, buildNamingContext(batch, frame, index + 1));
+        const path = `${folderName}/${preset.id}/${uniqueFileName(name, result.ext, used)}`;
+        zip.file(path, result.blob);
+        const entry = frameEntry(batch, frame, path, preset.id);
+        manifest.push(result.oversize
+          ? { ...entry, error: `超出 ${preset.name} 文件大小上限 (${(result.blob.size / 1024 / 1024).toFixed(2)}MB)` }
+          : entry);
+        onProgress?.({ done: ++done, total, phase: 'encode', percent: 0 });
+      }
+    }
+
+    if (config.promoClip.enabled) {
+      manifest.push(...await addPromoClip(zip, batch, folderName, config, (percent) =>
+        onProgress?.({ done, total, phase: 'clip', percent, productKey: batch.productKey })));
+    }
+  }
+  return manifest;
+}
+
+/**
+ * 短视频与动图写入商品文件夹的 promo 子文件夹；缺少源视频或生成失败时只记录到清单
+ */
+async function addPromoClip(
+  zip: JSZip,
+  batch: ProductBatch,
+  folderName: string,
+  config: AppConfig,
+  onPercent: (percent: number) => void
+): Promise<ManifestEntry[]> {
+  const entry = { ...baseEntry(batch), preset: 'promo' };
+  if (!canRenderPromo(batch)) {
+    return batch.kind === 'images' ? [] : [{ ...entry, error: '缺少源视频，未生成短视频' }];
+  }
+  try {
+    const assets = await renderPromoClip(batch, config.promoClip, onPercent);
+    const used = new Set<string>();
+    return assets.map(asset => {
+      const path = `${folderName}/promo/${uniqueFileName(`${sanitizeFileName(batch.productKey)}_promo`, asset.ext, used)}`;
+      zip.file(path, asset.blob);
+      return { ...entry, path };
+    });
+  } catch (err) {
+    console.warn('Promo clip failed', err);
+    return [{ ...entry, error: `短视频生成失败：${err instanceof Error ? err.message : String(err)}` }];
+  }
+}
+
+/**
+ * 以流式方式生成 ZIP Blob；图片已是压缩格式，直接存储不再压缩
+ */
+export function generateZipBlob(zip: JSZip, onPercent?: (percent: number) => void): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const parts: Blob[] = [];
+    let pending: Uint8Array[] = [];
+    let pendingBytes = 0;
+    const flush = () => {
+      if (pending.length === 0) return;
+      parts.push(new Blob(pending));
+      pending = [];
+      pendingBytes = 0;
+    };
+
+    zip
+      .generateInternalStream({ type: 'uint8array', streamFiles: true, compression: 'STORE' })
+      .on('data', (chunk, meta) => {
+        pending.push(chunk);
+        pendingBytes += chunk.length;
+        if (pendingBytes >= FLUSH_BYTES) flush();
+        onPercent?.(meta.percent);
+      })
+      .on('error', reject)
+      .on('end', () => {
+        flush();
+        resolve(new Blob(parts, { type: 'application/zip' }));
+      })
+      .resume();
+  });
+}
+
+/**
+ * 队列级导出：所有批次一个 ZIP，根目录附带清单
+ */
+export async function exportArchive(
+  batches: ProductBatch[],
+  config: AppConfig,
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<Blob> {
+  const zip = new JSZip();
+  const manifest = await addBatchesToZip(zip, batches, config, onProgress);
+  zip.file('manifest.csv', buildManifestCsv(manifest));
+  zip.file('manifest.json', JSON.stringify({ exportedAt: new Date().toISOString(), files: manifest }, null, 2));
+
+  const total = countImages(batches, config);
+  return generateZipBlob(zip, (percent) => onProgress?.({ done: total, total, phase: 'zip', percent }));
+}
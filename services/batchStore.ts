@@ -0,0 +1,218 @@
+
+import { Keyframe, ProcessingStatus, ProductBatch } from '../types';
+
+/**
+ * 批次持久化 (IndexedDB)：批次记录与帧图片分开存储，图片以 Blob 保存，
+ * 恢复时转换为 blob: URL，避免把大量 base64 字符串常驻内存
+ */
+
+const DB_NAME = 'jewelsnap';
+const DB_VERSION = 1;
+const BATCH_STORE = 'batches';
+const IMAGE_STORE = 'images';
+
+type ImageKind = 'source' | 'processed';
+
+interface StoredImage {
+  key: string;      // `${batchId}/${frameId}/${kind}`
+  batchId: string;
+  blob: Blob;
+}
+
+// 批次记录中不含图片与源视频；position 用于恢复队列顺序
+type StoredBatch = Omit<ProductBatch, 'rawFile' | 'rawFiles'> & { position: number };
+
+export interface BatchUsage {
+  id: string;
+  productKey: string;
+  bytes: number;
+  images: number;
+}
+
+export interface StorageUsage {
+  batches: BatchUsage[];
+  total: number;     // 本应用图片占用 (字节)
+  usage?: number;    // 浏览器报告的本站点总占用
+  quota?: number;
+}
+
+// 已写入的图片 key → 对应的 URL；URL 未变化时无需重复写入
+const persistedUrls = new Map<string, string>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const imageKey = (batchId: string, frameId: string, kind: ImageKind) => `${batchId}/${frameId}/${kind}`;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(BATCH_STORE)) db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'key' }).createIndex('batchId', 'batchId');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+export const isPersistenceAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * 申请持久化存储，降低 iOS Safari 在空间紧张时清除数据的概率
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  try {
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch {
+    return false;
+  }
+}
+
+const stripFrame = (frame: Keyframe): Keyframe => ({ ...frame, dataUrl: '', processedUrl: undefined });
+
+/**
+ * 保存一个批次：记录整体覆盖，图片只写入新增或变化的部分并删除不再引用的图片
+ */
+export async function saveBatch(batch: ProductBatch, position: number): Promise<void> {
+  const images: { key: string; url: string }[] = [];
+  batch.frames.forEach(frame => {
+    images.push({ key: imageKey(batch.id, frame.id, 'source'), url: frame.dataUrl });
+    if (frame.processedUrl) images.push({ key: imageKey(batch.id, frame.id, 'processed'), url: frame.processedUrl });
+  });
+
+  // 先在事务外完成 URL → Blob 的转换，IndexedDB 事务不能跨 await 保持活跃
+  const changed = images.filter(img => img.url && persistedUrls.get(img.key) !== img.url);
+  const blobs = await Promise.all(changed.map(async img => (await fetch(img.url)).blob()));
+
+  const db = await openDb();
+  const existingKeys = await request(
+    db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).index('batchId').getAllKeys(batch.id)
+  ) as string[];
+  const liveKeys = new Set(images.map(img => img.key));
+
+  const { rawFile: _rawFile, rawFiles: _rawFiles, ...rest } = batch;
+  const record: StoredBatch = { ...rest, position, frames: batch.frames.map(stripFrame) };
+  const tx = db.transaction([BATCH_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(BATCH_STORE).put(record);
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  changed.forEach((img, i) => imageStore.put({ key: img.key, batchId: batch.id, blob: blobs[i] } as StoredImage));
+  existingKeys.filter(key => !liveKeys.has(key)).forEach(key => {
+    imageStore.delete(key);
+    persistedUrls.delete(key);
+  });
+  await transactionDone(tx);
+  changed.forEach(img => persistedUrls.set(img.key, img.url));
+}
+
+export async function deleteBatch(batchId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([BATCH_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(BATCH_STORE).delete(batchId);
+  const keys = await request(tx.objectStore(IMAGE_STORE).index('batchId').getAllKeys(batchId)) as string[];
+  keys.forEach(key => {
+    tx.objectStore(IMAGE_STORE).delete(key);
+    persistedUrls.delete(key);
+  });
+  await transactionDone(tx);
+}
+
+export async function clearAll(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([BATCH_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(BATCH_STORE).clear();
+  tx.objectStore(IMAGE_STORE).clear();
+  await transactionDone(tx);
+  persistedUrls.clear();
+}
+
+/**
+ * 恢复全部批次；源视频无法持久化，中断的处理回到等待状态
+ */
+export async function loadBatches(): Promise<ProductBatch[]> {
+  const db = await openDb();
+  const tx = db.transaction([BATCH_STORE, IMAGE_STORE]);
+  const [records, images] = await Promise.all([
+    request(tx.objectStore(BATCH_STORE).getAll()) as Promise<StoredBatch[]>,
+    request(tx.objectStore(IMAGE_STORE).getAll()) as Promise<StoredImage[]>
+  ]);
+
+  const urls = new Map<string, string>();
+  images.forEach(img => {
+    const url = URL.createObjectURL(img.blob);
+    urls.set(img.key, url);
+    persistedUrls.set(img.key, url);
+  });
+
+  return records.sort((a, b) => a.position - b.position).map(({ position: _position, ...record }) => ({
+    ...record,
+    status: record.status === ProcessingStatus.PROCESSING ? ProcessingStatus.QUEUED : record.status,
+    progress: record.status === ProcessingStatus.PROCESSING ? 0 : record.progress,
+    frames: record.frames
+      .map(frame => ({
+        ...frame,
+        dataUrl: urls.get(imageKey(record.id, frame.id, 'source')) || '',
+        processedUrl: urls.get(imageKey(record.id, frame.id, 'processed'))
+      }))
+      // 图片缺失的帧无法使用
+      .filter(frame => frame.dataUrl !== '')
+  }));
+}
+
+/**
+ * 批次帧引用的 blob: URL (恢复的图片与渲染结果)；不再被任何批次引用时需由调用方释放
+ */
+export function collectObjectUrls(batches: ProductBatch[]): Set<string> {
+  const urls = new Set<string>();
+  batches.forEach(batch => batch.frames.forEach(frame => {
+    [frame.dataUrl, frame.processedUrl].forEach(url => {
+      if (url?.startsWith('blob:')) urls.add(url);
+    });
+  }));
+  return urls;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const db = await openDb();
+  const tx = db.transaction([BATCH_STORE, IMAGE_STORE]);
+  const [records, images] = await Promise.all([
+    request(tx.objectStore(BATCH_STORE).getAll()) as Promise<StoredBatch[]>,
+    request(tx.objectStore(IMAGE_STORE).getAll()) as Promise<StoredImage[]>
+  ]);
+
+  const usage = new Map<string, BatchUsage>(records.map(r => [r.id, { id: r.id, productKey: r.productKey, bytes: 0, images: 0 }]));
+  images.forEach(img => {
+    const entry = usage.get(img.batchId);
+    if (!entry) return;
+    entry.bytes += img.blob.size;
+    entry.images++;
+  });
+
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  const batches = [...usage.values()];
+  return {
+    batches,
+    total: batches.reduce((sum, b) => sum + b.bytes, 0),
+    usage: estimate?.usage,
+    quota: estimate?.quota
+  };
+}
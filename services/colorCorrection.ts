@@ -0,0 +1,104 @@
+
+import { ColorAdjustments, MetalPreset } from '../types';
+import { PixelBuffer } from './frameScorers';
+
+/**
+ * 色彩校正：自动白平衡、曝光、对比度、自然饱和度与金属色调预设。
+ * 只作用于导出图，原始高清帧保持不变
+ */
+
+export const DEFAULT_COLOR_ADJUSTMENTS: ColorAdjustments = {
+  autoWhiteBalance: false,
+  exposure: 0,
+  contrast: 0,
+  vibrance: 0,
+  preset: 'none'
+};
+
+export const METAL_PRESETS: Record<MetalPreset, { label: string; gains: [number, number, number]; vibrance: number; contrast: number }> = {
+  'none': { label: '无', gains: [1, 1, 1], vibrance: 0, contrast: 0 },
+  'gold': { label: '黄金', gains: [1.04, 1, 0.9], vibrance: 0.15, contrast: 0.05 },
+  'silver': { label: '银/铂金', gains: [0.97, 1, 1.04], vibrance: -0.2, contrast: 0.1 },
+  'rose-gold': { label: '玫瑰金', gains: [1.05, 0.97, 0.96], vibrance: 0.1, contrast: 0.05 }
+};
+
+export function isNeutralAdjustments(adj?: ColorAdjustments): boolean {
+  return !adj || (
+    !adj.autoWhiteBalance && adj.exposure === 0 && adj.contrast === 0 && adj.vibrance === 0 && adj.preset === 'none'
+  );
+}
+
+/**
+ * 从低饱和、未过曝的中性色像素估计白平衡增益 (纯函数)，中性像素过少时不做校正
+ */
+export function estimateWhiteBalance({ data }: PixelBuffer): [number, number, number] {
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const max = Math.max(data[i], data[i + 1], data[i + 2]);
+    const min = Math.min(data[i], data[i + 1], data[i + 2]);
+    if (max < 60 || max > 245) continue;
+    if ((max - min) / max > 0.2) continue;
+    r += data[i]; g += data[i + 1]; b += data[i + 2];
+    count++;
+  }
+  if (count < data.length / 4 / 100) return [1, 1, 1];
+  const gray = (r + g + b) / 3;
+  const clamp = (v: number) => Math.min(2, Math.max(0.5, v));
+  return [clamp(gray / r), clamp(gray / g), clamp(gray / b)];
+}
+
+/**
+ * 原地调整像素 (纯函数，不依赖 DOM)
+ */
+export function applyAdjustments(
+  pixels: PixelBuffer,
+  adj: ColorAdjustments,
+  whiteBalance: [number, number, number] = [1, 1, 1]
+): void {
+  const { data } = pixels;
+  const preset = METAL_PRESETS[adj.preset];
+  const exposure = Math.pow(2, adj.exposure);
+  const gains = [0, 1, 2].map(c => whiteBalance[c] * preset.gains[c] * exposure);
+  const contrast = 1 + adj.contrast + preset.contrast;
+  const vibrance = adj.vibrance + preset.vibrance;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * gains[0];
+    let g = data[i + 1] * gains[1];
+    let b = data[i + 2] * gains[2];
+
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+
+    if (vibrance !== 0) {
+      // 饱和度越低提升越多，避免已经饱和的宝石颜色溢出
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const sat = max <= 0 ? 0 : Math.min(1, (max - min) / max);
+      const amount = vibrance * (1 - sat);
+      const avg = (r + g + b) / 3;
+      r += (r - avg) * amount;
+      g += (g - avg) * amount;
+      b += (b - avg) * amount;
+    }
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
+
+/**
+ * 对完整分辨率的画布原地应用色彩校正
+ */
+export function applyColorAdjustments(canvas: HTMLCanvasElement, adj: ColorAdjustments): HTMLCanvasElement {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context unavailable');
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const whiteBalance = adj.autoWhiteBalance ? estimateWhiteBalance(pixels) : undefined;
+  applyAdjustments(pixels, adj, whiteBalance);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
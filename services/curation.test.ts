@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Keyframe, ProcessingStatus, ProductBatch } from '../types';
+import { DEFAULT_EXTRACTION_OPTIONS } from './videoProcessor';
+import { getCuratedFrames, moveFrame, pinFrame, rejectFrame } from './curation';
+
+const makeFrame = (id: string, globalRank?: number): Keyframe => ({
+  id,
+  dataUrl: 'data:image/jpeg;base64,AAAA',
+  timestamp: 1,
+  score: 50,
+  partId: 1,
+  rankId: 1,
+  globalRank
+});
+
+// a..c 为算法精选 (按 globalRank)，d 未入选
+const FRAMES = [makeFrame('b', 2), makeFrame('d'), makeFrame('a', 1), makeFrame('c', 3)];
+
+const makeBatch = (selection?: string[], frames: Keyframe[] = FRAMES): ProductBatch => ({
+  id: 'b1',
+  fileName: 'ring.mov',
+  productKey: 'ring',
+  status: ProcessingStatus.COMPLETED,
+  progress: 100,
+  frames,
+  extraction: DEFAULT_EXTRACTION_OPTIONS,
+  selection
+});
+
+const ids = (frames: Keyframe[]) => frames.map(f => f.id);
+
+describe('getCuratedFrames', () => {
+  it('没有人工精选时按 globalRank 返回算法结果', () => {
+    expect(ids(getCuratedFrames(makeBatch()))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('人工精选覆盖算法结果并保持其顺序', () => {
+    expect(ids(getCuratedFrames(makeBatch(['d', 'a'])))).toEqual(['d', 'a']);
+    expect(getCuratedFrames(makeBatch([]))).toEqual([]);
+  });
+
+  it('重新处理后已不存在的帧 ID 被忽略', () => {
+    const reprocessed = [makeFrame('a', 1), makeFrame('x', 2)];
+    expect(ids(getCuratedFrames(makeBatch(['c', 'a', 'b'], reprocessed)))).toEqual(['a']);
+  });
+});
+
+describe('pinFrame / rejectFrame', () => {
+  it('首次操作以算法结果为基础', () => {
+    expect(pinFrame(makeBatch(), 'd')).toEqual(['a', 'b', 'c', 'd']);
+    expect(rejectFrame(makeBatch(), 'b')).toEqual(['a', 'c']);
+  });
+
+  it('已入选的帧重复固定不变', () => {
+    expect(pinFrame(makeBatch(), 'a')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('剔除后再固定：重新入选并排在末尾', () => {
+    const rejected = rejectFrame(makeBatch(), 'a');
+    expect(rejected).toEqual(['b', 'c']);
+    expect(pinFrame(makeBatch(rejected), 'a')).toEqual(['b', 'c', 'a']);
+  });
+
+  it('剔除未入选的帧不影响精选', () => {
+    expect(rejectFrame(makeBatch(['a', 'c']), 'b')).toEqual(['a', 'c']);
+  });
+
+  it('操作结果中不再保留过期的帧 ID', () => {
+    const reprocessed = [makeFrame('a', 1), makeFrame('x', 2)];
+    expect(pinFrame(makeBatch(['c', 'a'], reprocessed), 'x')).toEqual(['a', 'x']);
+    expect(rejectFrame(makeBatch(['c', 'a'], reprocessed), 'a')).toEqual([]);
+  });
+});
+
+describe('moveFrame', () => {
+  it('与相邻帧交换位置', () => {
+    expect(moveFrame(makeBatch(), 'b', -1)).toEqual(['b', 'a', 'c']);
+    expect(moveFrame(makeBatch(), 'b', 1)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('首帧前移、末帧后移时保持不变', () => {
+    expect(moveFrame(makeBatch(), 'a', -1)).toEqual(['a', 'b', 'c']);
+    expect(moveFrame(makeBatch(), 'c', 1)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('未入选或已过期的帧不能移动', () => {
+    expect(moveFrame(makeBatch(), 'd', -1)).toEqual(['a', 'b', 'c']);
+    const reprocessed = [makeFrame('a', 1), makeFrame('x', 2)];
+    expect(moveFrame(makeBatch(['a', 'c', 'x'], reprocessed), 'x', -1)).toEqual(['x', 'a']);
+    expect(moveFrame(makeBatch(['a', 'c', 'x'], reprocessed), 'c', 1)).toEqual(['a', 'x']);
+  });
+});
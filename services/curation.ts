@@ -0,0 +1,38 @@
+
+import { Keyframe, ProductBatch } from '../types';
+import { getFinalSelection } from './videoProcessor';
+
+/**
+ * 人工精选：ProductBatch.selection 保存有序的帧 ID，存在时覆盖算法结果，所有导出路径均以此为准
+ */
+export function getCuratedFrames(batch: ProductBatch): Keyframe[] {
+  if (!batch.selection) return getFinalSelection(batch.frames);
+  const byId = new Map(batch.frames.map(f => [f.id, f]));
+  return batch.selection
+    .map(id => byId.get(id))
+    .filter((f): f is Keyframe => !!f);
+}
+
+const currentIds = (batch: ProductBatch) => getCuratedFrames(batch).map(f => f.id);
+
+export function pinFrame(batch: ProductBatch, frameId: string): string[] {
+  const ids = currentIds(batch);
+  return ids.includes(frameId) ? ids : [...ids, frameId];
+}
+
+export function rejectFrame(batch: ProductBatch, frameId: string): string[] {
+  return currentIds(batch).filter(id => id !== frameId);
+}
+
+/**
+ * 调整精选顺序，offset 为 -1 (前移) 或 1 (后移)；顺序即导出文件顺序
+ */
+export function moveFrame(batch: ProductBatch, frameId: string, offset: number): string[] {
+  const ids = currentIds(batch);
+  const from = ids.indexOf(frameId);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= ids.length) return ids;
+  const next = [...ids];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { embedMetadata, formatExifDate, ImageMetadata } from './exifWriter';
+
+const decoder = new TextDecoder();
+
+// 最小 JPEG：SOI + APP0 (JFIF) + 伪 SOS 数据 + EOI
+const APP0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+const SOS = [0xff, 0xda, 0x00, 0x04, 0x11, 0x22, 0x33, 0x44, 0xff, 0xd9];
+const jpegOf = (...segments: number[][]) => Uint8Array.from([0xff, 0xd8, ...segments.flat(), ...SOS]);
+
+const app1 = (header: string, body: string) => {
+  const payload = [...new TextEncoder().encode(header + body)];
+  return [0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+};
+
+const meta: ImageMetadata = {
+  productKey: 'RING-001',
+  sourceFile: 'ring.mp4',
+  videoId: 'A1B2',
+  timestamp: 3.25,
+  score: 87.46,
+  label: 'Hero',
+  description: '18K 金钻戒',
+  artist: 'Studio',
+  copyright: '© 2025 Studio',
+  captureDate: new Date(2025, 11, 28, 9, 5, 7)
+};
+
+interface Segment {
+  marker: number;
+  payload: Uint8Array;
+}
+
+function readSegments(jpeg: Uint8Array): Segment[] {
+  const out: Segment[] = [];
+  let offset = 2;
+  while (jpeg[offset] === 0xff && jpeg[offset + 1] !== 0xda) {
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    out.push({ marker: jpeg[offset + 1], payload: jpeg.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return out;
+}
+
+const startsWith = (payload: Uint8Array, header: string) => decoder.decode(payload.subarray(0, header.length)) === header;
+const exifSegments = (jpeg: Uint8Array) => readSegments(jpeg).filter(s => s.marker === 0xe1 && startsWith(s.payload, 'Exif\0\0'));
+const xmpSegments = (jpeg: Uint8Array) => readSegments(jpeg).filter(s => s.marker === 0xe1 && startsWith(s.payload, 'http://ns.adobe.com/xap/1.0/\0'));
+
+interface Entry {
+  type: number;
+  count: number;
+  valueOffset: number; // 值所在位置 (相对 TIFF 头)
+}
+
+/**
+ * 解析大端 TIFF 中的一个 IFD；超过 4 字节的值按条目中的偏移读取
+ */
+function readIfd(tiff: Uint8Array, offset: number): Map<number, Entry> {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const entries = new Map<number, Entry>();
+  const count = view.getUint16(offset);
+  for (let i = 0; i < count; i++) {
+    const p = offset + 2 + i * 12;
+    const type = view.getUint16(p + 2);
+    const n = view.getUint32(p + 4);
+    const size = type === 4 ? 4 : n;
+    entries.set(view.getUint16(p), { type, count: n, valueOffset: size > 4 ? view.getUint32(p + 8) : p + 8 });
+  }
+  expect(view.getUint32(offset + 2 + count * 12)).toBe(0);
+  return entries;
+}
+
+function readTiff(jpeg: Uint8Array) {
+  const [exif] = exifSegments(jpeg);
+  const tiff = exif.payload.subarray(6);
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  expect(decoder.decode(tiff.subarray(0, 2))).toBe('MM');
+  expect(view.getUint16(2)).toBe(42);
+  const ifd0 = readIfd(tiff, view.getUint32(4));
+  const exifIfd = readIfd(tiff, view.getUint32(ifd0.get(0x8769)!.valueOffset));
+  const ascii = (entry: Entry) => {
+    const bytes = tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+    expect(bytes[bytes.length - 1]).toBe(0);
+    return decoder.decode(bytes.subarray(0, -1));
+  };
+  const userComment = (entry: Entry) => {
+    const bytes = tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+    expect(decoder.decode(bytes.subarray(0, 8))).toBe('UNICODE\0');
+    const chars = new DataView(bytes.buffer, bytes.byteOffset + 8, bytes.length - 8);
+    return String.fromCharCode(...Array.from({ length: (bytes.length - 8) / 2 }, (_, i) => chars.getUint16(i * 2)));
+  };
+  return { tiff, ifd0, exifIfd, ascii, userComment };
+}
+
+describe('embedMetadata', () => {
+  it('写入后可解析回 IFD0 与 Exif IFD 字段', () => {
+    const out = embedMetadata(jpegOf(APP0), meta);
+    const { ifd0, exifIfd, ascii, userComment } = readTiff(out);
+
+    expect(ascii(ifd0.get(0x010e)!)).toBe('RING-001 - Hero');
+    expect(ascii(ifd0.get(0x0131)!)).toBe('JewelSnap AI');
+    expect(ascii(ifd0.get(0x0132)!)).toBe('2025:12:28 09:05:07');
+    expect(ascii(ifd0.get(0x013b)!)).toBe('Studio');
+    expect(ascii(exifIfd.get(0x9003)!)).toBe(formatExifDate(meta.captureDate!));
+    expect(userComment(exifIfd.get(0x9286)!)).toBe('productKey=RING-001; source=ring.mp4; videoId=A1B2; timestamp=3.250; score=87.5');
+
+    const xmp = decoder.decode(xmpSegments(out)[0].payload);
+    expect(xmp).toContain('<js:ProductKey>RING-001</js:ProductKey>');
+    expect(xmp).toContain('<rdf:li xml:lang="x-default">18K 金钻戒</rdf:li>');
+  });
+
+  it('元数据段插在 APP0 之后，图像数据原样保留', () => {
+    const input = jpegOf(APP0);
+    const out = embedMetadata(input, meta);
+    const markers = readSegments(out).map(s => s.marker);
+
+    expect(markers).toEqual([0xe0, 0xe1, 0xe1]);
+    expect(Array.from(out.subarray(out.length - SOS.length))).toEqual(SOS);
+    expect(Array.from(out.subarray(0, 2 + APP0.length))).toEqual(Array.from(input.subarray(0, 2 + APP0.length)));
+  });
+
+  it('超过 4 字节的值写在条目表之后，偏移按字对齐且指向段内', () => {
+    const { tiff, ifd0, exifIfd } = readTiff(embedMetadata(jpegOf(APP0), meta));
+    const entries = [...ifd0.values(), ...exifIfd.values()].filter(e => e.type !== 4 && e.count > 4);
+
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach(entry => {
+      expect(entry.valueOffset % 2).toBe(0);
+      expect(entry.valueOffset + entry.count).toBeLessThanOrEqual(tiff.length);
+    });
+    // 各值区域互不重叠
+    const ranges = entries.map(e => [e.valueOffset, e.valueOffset + e.count]).sort((a, b) => a[0] - b[0]);
+    ranges.slice(1).forEach((range, i) => expect(range[0]).toBeGreaterThanOrEqual(ranges[i][1]));
+    // 不超过 4 字节的值直接写在条目中
+    const compact = readTiff(embedMetadata(jpegOf(APP0), { ...meta, productKey: 'R1', label: undefined }));
+    const short = compact.ifd0.get(0x010e)!;
+    expect(short.count).toBe(3);
+    expect(compact.ascii(short)).toBe('R1');
+  });
+
+  it('替换已有的 Exif 与 XMP 段，不重复叠加', () => {
+    const input = jpegOf(APP0, app1('Exif\0\0', 'MM\0*old'), app1('http://ns.adobe.com/xap/1.0/\0', '<old/>'), [0xff, 0xdb, 0x00, 0x03, 0x00]);
+    const once = embedMetadata(input, meta);
+    const twice = embedMetadata(once, { ...meta, label: 'Macro' });
+
+    expect(exifSegments(twice)).toHaveLength(1);
+    expect(xmpSegments(twice)).toHaveLength(1);
+    expect(decoder.decode(xmpSegments(twice)[0].payload)).not.toContain('<old/>');
+    const { ifd0, ascii } = readTiff(twice);
+    expect(ascii(ifd0.get(0x010e)!)).toBe('RING-001 - Macro');
+    // 其他段 (DQT) 保留
+    expect(readSegments(twice).map(s => s.marker)).toEqual([0xe0, 0xe1, 0xe1, 0xdb]);
+  });
+
+  it('ASCII 字段中的非 ASCII 文本按 UTF-8 字节计数写入', () => {
+    const { ifd0, ascii } = readTiff(embedMetadata(jpegOf(APP0), { ...meta, copyright: '© 珠宝工作室' }));
+    const entry = ifd0.get(0x8298)!;
+
+    expect(entry.count).toBe(new TextEncoder().encode('© 珠宝工作室').length + 1);
+    expect(ascii(entry)).toBe('© 珠宝工作室');
+  });
+
+  it('非 JPEG 数据抛出错误', () => {
+    expect(() => embedMetadata(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]), meta)).toThrow('Not a JPEG image');
+  });
+});
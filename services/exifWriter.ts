@@ -0,0 +1,235 @@
+
+/**
+ * EXIF / XMP 写入 (纯函数，只操作字节，不依赖 DOM)：
+ * 在 JPEG 的 SOI / APP0 之后插入 APP1 Exif 与 APP1 XMP 段，已有的同类段会被替换
+ */
+
+export interface ImageMetadata {
+  productKey: string;
+  sourceFile: string;
+  videoId?: string;
+  timestamp?: number;   // 帧在视频中的时间 (秒)，图片批次没有
+  score: number;        // 清晰度评分 0-100
+  label?: string;
+  description?: string;
+  artist?: string;
+  copyright?: string;
+  captureDate?: Date;
+  software?: string;
+}
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_NAMESPACE = 'http://ns.jewelsnap.app/1.0/';
+
+// TIFF 字段类型
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+const TYPE_UNDEFINED = 7;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  data: Uint8Array; // ASCII / UNDEFINED 的原始字节；LONG 为 4 字节大端值
+}
+
+const encoder = new TextEncoder();
+
+const asciiBytes = (value: string) => {
+  const bytes = encoder.encode(value);
+  const out = new Uint8Array(bytes.length + 1); // 以 NUL 结尾
+  out.set(bytes);
+  return out;
+};
+
+const longBytes = (value: number) => {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+};
+
+/**
+ * EXIF 日期格式 "YYYY:MM:DD HH:MM:SS" (本地时间)
+ */
+export function formatExifDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * UserComment：8 字节字符集前缀 + 内容，中文等非 ASCII 文本使用 UCS-2 (与 TIFF 头一致的大端序)
+ */
+function userCommentBytes(text: string): Uint8Array {
+  const out = new Uint8Array(8 + text.length * 2);
+  out.set(encoder.encode('UNICODE\0'));
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < text.length; i++) view.setUint16(8 + i * 2, text.charCodeAt(i));
+  return out;
+}
+
+/**
+ * 序列化一个 IFD (大端序)，offset 为该 IFD 相对 TIFF 头的起始位置；
+ * 超过 4 字节的值写在条目表之后
+ */
+function writeIfd(entries: IfdEntry[], offset: number): Uint8Array {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + sorted.length * 12 + 4;
+  const extraSize = sorted.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length & 1) : 0), 0);
+  const out = new Uint8Array(tableSize + extraSize);
+  const view = new DataView(out.buffer);
+
+  view.setUint16(0, sorted.length);
+  let extra = tableSize;
+  sorted.forEach((entry, i) => {
+    const p = 2 + i * 12;
+    const count = entry.type === TYPE_LONG ? 1 : entry.data.length;
+    view.setUint16(p, entry.tag);
+    view.setUint16(p + 2, entry.type);
+    view.setUint32(p + 4, count);
+    if (entry.data.length <= 4) {
+      out.set(entry.data, p + 8);
+    } else {
+      view.setUint32(p + 8, offset + extra);
+      out.set(entry.data, extra);
+      extra += entry.data.length + (entry.data.length & 1); // 值按字对齐
+    }
+  });
+  view.setUint32(2 + sorted.length * 12, 0); // 无后续 IFD
+  return out;
+}
+
+/**
+ * 构建完整的 APP1 Exif 段 (含 FFE1 标记与长度)
+ */
+export function buildExifSegment(meta: ImageMetadata): Uint8Array {
+  const date = meta.captureDate ? formatExifDate(meta.captureDate) : undefined;
+  const ifd0: IfdEntry[] = [
+    { tag: 0x010e, type: TYPE_ASCII, data: asciiBytes(meta.label ? `${meta.productKey} - ${meta.label}` : meta.productKey) },
+    { tag: 0x0131, type: TYPE_ASCII, data: asciiBytes(meta.software || 'JewelSnap AI') }
+  ];
+  if (date) ifd0.push({ tag: 0x0132, type: TYPE_ASCII, data: asciiBytes(date) });
+  if (meta.artist) ifd0.push({ tag: 0x013b, type: TYPE_ASCII, data: asciiBytes(meta.artist) });
+  if (meta.copyright) ifd0.push({ tag: 0x8298, type: TYPE_ASCII, data: asciiBytes(meta.copyright) });
+
+  const comment = [
+    `productKey=${meta.productKey}`,
+    `source=${meta.sourceFile}`,
+    meta.videoId ? `videoId=${meta.videoId}` : '',
+    meta.timestamp !== undefined ? `timestamp=${meta.timestamp.toFixed(3)}` : '',
+    `score=${meta.score.toFixed(1)}`
+  ].filter(Boolean).join('; ');
+  const exifIfd: IfdEntry[] = [
+    { tag: 0x9286, type: TYPE_UNDEFINED, data: userCommentBytes(comment) }
+  ];
+  if (date) exifIfd.push({ tag: 0x9003, type: TYPE_ASCII, data: asciiBytes(date) });
+
+  // IFD0 需先知道 Exif IFD 的位置：先按占位指针序列化计算长度
+  const pointer: IfdEntry = { tag: 0x8769, type: TYPE_LONG, data: longBytes(0) };
+  const ifd0Offset = 8;
+  const ifd0Size = writeIfd([...ifd0, pointer], ifd0Offset).length;
+  pointer.data = longBytes(ifd0Offset + ifd0Size);
+  const ifd0Bytes = writeIfd([...ifd0, pointer], ifd0Offset);
+  const exifBytes = writeIfd(exifIfd, ifd0Offset + ifd0Size);
+
+  const tiffHeader = new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // "MM", 42, IFD0 偏移 8
+  return segment(0xe1, concat([encoder.encode(EXIF_HEADER), tiffHeader, ifd0Bytes, exifBytes]));
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * 构建 APP1 XMP 段，文本字段以 UTF-8 完整保存 (EXIF ASCII 字段无法可靠表示中文)
+ */
+export function buildXmpSegment(meta: ImageMetadata): Uint8Array {
+  const altLang = (tag: string, value?: string) => value
+    ? `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>`
+    : '';
+  const simple = (tag: string, value?: string | number) => value !== undefined && value !== ''
+    ? `<${tag}>${escapeXml(String(value))}</${tag}>`
+    : '';
+
+  const xmp = [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:js="${XMP_NAMESPACE}">`,
+    altLang('dc:title', meta.label),
+    altLang('dc:description', meta.description),
+    meta.artist ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(meta.artist)}</rdf:li></rdf:Seq></dc:creator>` : '',
+    altLang('dc:rights', meta.copyright),
+    simple('xmp:CreatorTool', meta.software || 'JewelSnap AI'),
+    simple('xmp:CreateDate', meta.captureDate?.toISOString()),
+    simple('js:ProductKey', meta.productKey),
+    simple('js:SourceFile', meta.sourceFile),
+    simple('js:VideoId', meta.videoId),
+    simple('js:Timestamp', meta.timestamp?.toFixed(3)),
+    simple('js:SharpnessScore', meta.score.toFixed(1)),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('');
+
+  return segment(0xe1, concat([encoder.encode(XMP_HEADER), encoder.encode(xmp)]));
+}
+
+function segment(marker: number, payload: Uint8Array): Uint8Array {
+  if (payload.length + 2 > 0xffff) throw new Error('Metadata segment too large');
+  const out = new Uint8Array(payload.length + 4);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = (payload.length + 2) >> 8;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+}
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: string) => {
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/**
+ * 写入元数据并返回新的 JPEG 字节；非 JPEG 数据抛出错误
+ */
+export function embedMetadata(jpeg: Uint8Array, meta: ImageMetadata): Uint8Array {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new Error('Not a JPEG image');
+
+  const kept: Uint8Array[] = [];
+  let insertAt = 0; // kept 中元数据段的插入位置
+  let offset = 2;
+  // 遍历图像数据 (SOS) 之前的标记段
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xda) break;
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    const end = offset + 2 + length;
+    if (end > jpeg.length) throw new Error('Corrupt JPEG segment');
+    const isExif = marker === 0xe1 && startsWith(jpeg, offset + 4, EXIF_HEADER);
+    const isXmp = marker === 0xe1 && startsWith(jpeg, offset + 4, XMP_HEADER);
+    if (!isExif && !isXmp) {
+      kept.push(jpeg.subarray(offset, end));
+      if (marker === 0xe0 && kept.length === 1) insertAt = 1; // JFIF APP0 必须紧跟 SOI
+    }
+    offset = end;
+  }
+
+  kept.splice(insertAt, 0, buildExifSegment(meta), buildXmpSegment(meta));
+  return concat([jpeg.subarray(0, 2), ...kept, jpeg.subarray(offset)]);
+}
@@ -0,0 +1,167 @@
+
+import { ExportFormat, ExportPreset, Keyframe, MetadataSettings, ProductBatch } from '../types';
+import { loadImage } from './imageProcessor';
+import { embedMetadata, ImageMetadata } from './exifWriter';
+
+/**
+ * 多格式导出：按渠道预设重新编码导出图 (格式、质量、长边、文件大小上限)
+ */
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; ext: string; lossy: boolean }> = {
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', ext: 'jpg', lossy: true },
+  webp: { label: 'WebP', mime: 'image/webp', ext: 'webp', lossy: true },
+  png: { label: 'PNG', mime: 'image/png', ext: 'png', lossy: false },
+  avif: { label: 'AVIF', mime: 'image/avif', ext: 'avif', lossy: true }
+};
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'original', name: '原图', enabled: true, format: 'jpeg', quality: 0.92 },
+  { id: 'taobao', name: '淘宝/天猫', enabled: false, format: 'jpeg', quality: 0.9, minLongEdge: 800, maxLongEdge: 1500, maxFileSize: 3 * MB },
+  { id: 'amazon', name: 'Amazon', enabled: false, format: 'jpeg', quality: 0.92, minLongEdge: 1000, maxLongEdge: 2000, maxFileSize: 10 * MB },
+  { id: 'instagram', name: 'Instagram', enabled: false, format: 'jpeg', quality: 0.9, maxLongEdge: 1080, maxFileSize: 8 * MB },
+  { id: 'web', name: 'WebP 网页', enabled: false, format: 'webp', quality: 0.85, maxLongEdge: 1600, maxFileSize: 0.5 * MB }
+];
+
+// 自动降质的下限与步长，低于下限后改为缩小尺寸
+const MIN_QUALITY = 0.5;
+const QUALITY_STEP = 0.05;
+const SHRINK_FACTOR = 0.85;
+
+export interface ExportResult {
+  blob: Blob;
+  ext: string;
+  width: number;
+  height: number;
+  quality: number;
+  fallback: boolean; // 浏览器不支持目标格式，已回退为 JPEG
+  oversize: boolean; // 达到降质与缩放下限后仍超出文件大小上限
+}
+
+/**
+ * 按长边上下限计算导出尺寸 (纯函数)，保持宽高比
+ */
+export function computeExportSize(
+  width: number,
+  height: number,
+  preset: Pick<ExportPreset, 'maxLongEdge' | 'minLongEdge'>
+): { width: number; height: number } {
+  const longEdge = Math.max(width, height, 1);
+  let scale = 1;
+  if (preset.maxLongEdge && longEdge > preset.maxLongEdge) scale = preset.maxLongEdge / longEdge;
+  if (preset.minLongEdge && longEdge < preset.minLongEdge) scale = preset.minLongEdge / longEdge;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * 依次尝试的编码质量 (纯函数)：无损格式只有一档，有损格式从预设质量逐级降到下限
+ */
+export function qualitySteps(preset: Pick<ExportPreset, 'format' | 'quality' | 'maxFileSize'>): number[] {
+  if (!EXPORT_FORMATS[preset.format].lossy) return [1];
+  if (!preset.maxFileSize) return [preset.quality];
+  const steps = [preset.quality];
+  for (let q = preset.quality - QUALITY_STEP; q >= MIN_QUALITY - 1e-6; q -= QUALITY_STEP) {
+    steps.push(Math.round(q * 100) / 100);
+  }
+  return steps;
+}
+
+const toBlob = (canvas: HTMLCanvasElement, mime: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image encode failed')), mime, quality);
+  });
+
+export async function encodeForPreset(src: string, preset: ExportPreset): Promise<ExportResult> {
+  const img = await loadImage(src);
+  let { width, height } = computeExportSize(img.naturalWidth, img.naturalHeight, preset);
+  let format = EXPORT_FORMATS[preset.format];
+  let fallback = false;
+  const minLongEdge = Math.max(200, preset.minLongEdge || 0);
+
+  for (;;) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) throw new Error('Canvas context unavailable');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+
+    let blob: Blob | null = null;
+    let quality = 1;
+    for (quality of qualitySteps({ ...preset, format: fallback ? 'jpeg' : preset.format })) {
+      blob = await toBlob(canvas, format.mime, quality);
+      // 不支持的格式会被浏览器静默编码为 PNG
+      if (blob.type !== format.mime) {
+        format = EXPORT_FORMATS.jpeg;
+        fallback = true;
+        blob = await toBlob(canvas, format.mime, quality);
+      }
+      if (!preset.maxFileSize || blob.size <= preset.maxFileSize) {
+        return { blob, ext: format.ext, width, height, quality, fallback, oversize: false };
+      }
+    }
+
+    const nextLong = Math.max(width, height) * SHRINK_FACTOR;
+    if (!blob || nextLong < minLongEdge) {
+      if (!blob) throw new Error('Image encode failed');
+      return { blob, ext: format.ext, width, height, quality, fallback, oversize: true };
+    }
+    width = Math.max(1, Math.round(width * SHRINK_FACTOR));
+    height = Math.max(1, Math.round(height * SHRINK_FACTOR));
+  }
+}
+
+/**
+ * 预设摘要，用于设置面板展示
+ */
+export function describePreset(preset: ExportPreset): string {
+  const parts = [EXPORT_FORMATS[preset.format].label];
+  if (EXPORT_FORMATS[preset.format].lossy) parts.push(`Q${Math.round(preset.quality * 100)}`);
+  if (preset.maxLongEdge) parts.push(`≤${preset.maxLongEdge}px`);
+  if (preset.minLongEdge) parts.push(`≥${preset.minLongEdge}px`);
+  if (preset.maxFileSize) parts.push(`≤${+(preset.maxFileSize / MB).toFixed(2)}MB`);
+  return parts.join(' · ');
+}
+
+/**
+ * 本次导出使用的预设：未勾选任何预设时退回第一个
+ */
+export function getActivePresets(presets: ExportPreset[]): ExportPreset[] {
+  const enabled = presets.filter(p => p.enabled);
+  return enabled.length > 0 ? enabled : presets.slice(0, 1);
+}
+
+/**
+ * 汇总写入 EXIF/XMP 的帧信息；关闭写入时返回 undefined
+ */
+export function buildImageMetadata(batch: ProductBatch, frame: Keyframe, settings: MetadataSettings): ImageMetadata | undefined {
+  if (!settings.embed) return undefined;
+  const captureDate = batch.metadata?.captureDate ?? batch.rawFile?.lastModified;
+  return {
+    productKey: batch.productKey,
+    sourceFile: frame.sourceFile || batch.fileName,
+    videoId: batch.metadata?.videoId,
+    timestamp: frame.timestamp,
+    score: frame.score,
+    label: frame.label,
+    description: frame.aiStatus === 'done' ? frame.aiDescription : undefined,
+    artist: settings.artist.trim() || undefined,
+    copyright: settings.copyright.trim() || undefined,
+    captureDate: captureDate ? new Date(captureDate) : undefined
+  };
+}
+
+/**
+ * 按预设编码并写入元数据 (仅 JPEG 支持 EXIF/XMP，其他格式原样返回)
+ */
+export async function exportFrame(src: string, preset: ExportPreset, meta?: ImageMetadata): Promise<ExportResult> {
+  const result = await encodeForPreset(src, preset);
+  if (!meta || result.blob.type !== EXPORT_FORMATS.jpeg.mime) return result;
+  const bytes = embedMetadata(new Uint8Array(await result.blob.arrayBuffer()), meta);
+  return { ...result, blob: new Blob([bytes], { type: result.blob.type }) };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Keyframe, ProcessingStatus, ProductBatch } from '../types';
+import { DEFAULT_EXTRACTION_OPTIONS } from './videoProcessor';
+import {
+  buildNamingContext,
+  DEFAULT_FILE_NAME_TEMPLATE,
+  findUnknownTokens,
+  renderFileName,
+  sanitizeFileName,
+  uniqueFileName
+} from './fileNaming';
+
+const makeFrame = (overrides: Partial<Keyframe> = {}): Keyframe => ({
+  id: 'p2_r1',
+  dataUrl: 'data:image/jpeg;base64,AAAA',
+  timestamp: 4.267,
+  score: 80,
+  partId: 2,
+  rankId: 1,
+  ...overrides
+});
+
+const makeBatch = (overrides: Partial<ProductBatch> = {}): ProductBatch => ({
+  id: 'b1',
+  fileName: 'ring.mov',
+  productKey: 'RING-001',
+  status: ProcessingStatus.COMPLETED,
+  progress: 100,
+  frames: [],
+  extraction: { ...DEFAULT_EXTRACTION_OPTIONS, segments: 12 },
+  metadata: {
+    videoId: 'a1b2c3',
+    sessionTime: '143025',
+    duration: 10,
+    extraction: { ...DEFAULT_EXTRACTION_OPTIONS, segments: 12 },
+    scoreCurve: [],
+    captureDate: new Date(2026, 0, 2, 10, 0).getTime()
+  },
+  ...overrides
+});
+
+describe('renderFileName', () => {
+  it('默认模板：补零与分段编号位数', () => {
+    const context = buildNamingContext(makeBatch(), makeFrame(), 3);
+    expect(renderFileName(DEFAULT_FILE_NAME_TEMPLATE, context)).toBe('JS_a1b2c3_143025_03_P02_R1');
+  });
+
+  it('小数格式与商品表属性 (含中文列名)', () => {
+    const batch = makeBatch({ attributes: { sku: 'R-9', 颜色: '玫瑰金' } });
+    const context = buildNamingContext(batch, makeFrame(), 1);
+    expect(renderFileName('{sku}_{颜色}_{timestamp:.1}_{date}', context)).toBe('R-9_玫瑰金_4.3_20260102');
+  });
+
+  it('未知字段与缺失的值替换为空', () => {
+    const context = buildNamingContext(makeBatch(), makeFrame({ label: undefined }), 1);
+    expect(findUnknownTokens('{productKey}_{nope}_{label}_{nope:02}', context)).toEqual(['nope']);
+    expect(renderFileName('{productKey}_{nope}_{label}', context)).toBe('RING-001__');
+  });
+
+  it('结果为空时使用 untitled', () => {
+    expect(renderFileName('{nope}', {})).toBe('untitled');
+    expect(renderFileName('{label}', { label: '' })).toBe('untitled');
+  });
+
+  it('字段值中的非法字符同样被替换', () => {
+    expect(renderFileName('{productKey}', { productKey: 'A/B:C*?' })).toBe('A_B_C_');
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('非法字符与控制字符替换为下划线，连续空白合并', () => {
+    expect(sanitizeFileName('a<b>c|d"e\\f')).toBe('a_b_c_d_e_f');
+    expect(sanitizeFileName('tab\there\u0001x')).toBe('tab_here_x');
+    expect(sanitizeFileName('  多   空格  ')).toBe('多 空格');
+  });
+
+  it('去除首尾句点，保留名前加下划线', () => {
+    expect(sanitizeFileName('..hidden..')).toBe('hidden');
+    expect(sanitizeFileName('CON')).toBe('_CON');
+    expect(sanitizeFileName('lpt1')).toBe('_lpt1');
+    expect(sanitizeFileName('console')).toBe('console');
+  });
+
+  it('超长文件名截断到 150 个字符', () => {
+    expect(sanitizeFileName('x'.repeat(400))).toHaveLength(150);
+  });
+
+  it('清理后为空时使用 untitled', () => {
+    expect(sanitizeFileName(' ... ')).toBe('untitled');
+  });
+});
+
+describe('uniqueFileName', () => {
+  it('重名时追加 _2、_3，忽略大小写', () => {
+    const used = new Set<string>();
+    expect(uniqueFileName('IMG', 'jpg', used)).toBe('IMG.jpg');
+    expect(uniqueFileName('img', 'jpg', used)).toBe('img_2.jpg');
+    expect(uniqueFileName('IMG', 'jpg', used)).toBe('IMG_3.jpg');
+    expect(uniqueFileName('IMG', 'webp', used)).toBe('IMG.webp');
+  });
+
+  it('扩展名为空时用于文件夹名', () => {
+    const used = new Set<string>(['ring']);
+    expect(uniqueFileName('RING', '', used)).toBe('RING_2');
+  });
+});
+
+describe('buildNamingContext', () => {
+  it('图片批次没有时间戳，sourceFile 去掉扩展名', () => {
+    const context = buildNamingContext(
+      makeBatch({ kind: 'images' }),
+      makeFrame({ timestamp: undefined, sourceFile: 'IMG_0421.HEIC' }),
+      1
+    );
+    expect(context.timestamp).toBeUndefined();
+    expect(context.sourceFile).toBe('IMG_0421');
+    expect(renderFileName('{sourceFile}_{timestamp:.1}', context)).toBe('IMG_0421_');
+  });
+
+  it('商品表属性不能覆盖内置字段', () => {
+    const context = buildNamingContext(makeBatch({ attributes: { productKey: 'X', index: '9' } }), makeFrame(), 2);
+    expect(context.productKey).toBe('RING-001');
+    expect(context.index).toBe(2);
+  });
+});
@@ -0,0 +1,139 @@
+
+import { Keyframe, ProductBatch } from '../types';
+
+/**
+ * 文件命名模板 (纯函数)：`{token}` 或 `{token:格式}`，
+ * 格式 `0N` 表示补零到 N 位，`.N` 表示数字保留 N 位小数
+ */
+
+export type NamingContext = Record<string, string | number | undefined>;
+
+export const NAMING_TOKENS: { token: string; description: string }[] = [
+  { token: 'productKey', description: '商品编码 / 文件夹名' },
+  { token: 'videoId', description: '视频指纹' },
+  { token: 'sessionTime', description: '处理时间 HHMMSS' },
+  { token: 'index', description: '精选顺序 (从 1 开始)' },
+  { token: 'partId', description: '分段编号' },
+  { token: 'rankId', description: '段内排名' },
+  { token: 'globalRank', description: '全局排名' },
+  { token: 'timestamp', description: '帧时间 (秒)，图片批次为空' },
+  { token: 'sourceFile', description: '来源文件名 (不含扩展名)' },
+  { token: 'label', description: '标签' },
+  { token: 'date', description: '拍摄日期 YYYYMMDD' },
+  { token: 'sku', description: '商品表：SKU' },
+  { token: 'title', description: '商品表：标题' },
+  { token: 'material', description: '商品表：材质' },
+  { token: 'color', description: '商品表：颜色' }
+];
+
+// 没有可用批次时用于实时预览的示例
+export const SAMPLE_NAMING_CONTEXT: NamingContext = {
+  productKey: 'RING-001',
+  videoId: 'a1b2c3',
+  sessionTime: '143025',
+  index: 1,
+  partId: '2',
+  rankId: 1,
+  globalRank: 3,
+  timestamp: 4.27,
+  sourceFile: 'IMG_0421',
+  label: '分段 2 - 排名 1',
+  date: '20260101',
+  sku: 'RING-001',
+  title: '经典六爪钻戒',
+  material: '18K白金',
+  color: '白'
+};
+
+export const DEFAULT_FILE_NAME_TEMPLATE = 'JS_{videoId}_{sessionTime}_{index:02}_P{partId}_R{rankId}';
+
+// Windows / macOS / Linux 均不允许或有特殊含义的字符
+const ILLEGAL_CHARS = /[\\/:*?"<>|\x00-\x1f]+/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+const MAX_LENGTH = 150;
+// 字段名可为商品表中的任意列名 (含中文)
+const TOKEN_PATTERN = /\{([^{}:]+)(?::([^}]*))?\}/g;
+
+function formatValue(value: string | number, format?: string): string {
+  if (!format) return String(value);
+  const decimals = /^\.(\d+)$/.exec(format);
+  if (decimals && typeof value === 'number') return value.toFixed(parseInt(decimals[1]));
+  const pad = /^0(\d+)$/.exec(format);
+  if (pad) return String(value).padStart(parseInt(pad[1]), '0');
+  return String(value);
+}
+
+/**
+ * 去除非法字符、首尾空格与句点，避免保留名与超长文件名
+ */
+export function sanitizeFileName(name: string): string {
+  let clean = name.replace(ILLEGAL_CHARS, '_').replace(/\s+/g, ' ').trim().replace(/^\.+|\.+$/g, '');
+  if (clean.length > MAX_LENGTH) clean = clean.slice(0, MAX_LENGTH).trim();
+  if (RESERVED_NAMES.test(clean)) clean = `_${clean}`;
+  return clean || 'untitled';
+}
+
+/**
+ * 模板中上下文未提供的 token，用于预览提示
+ */
+export function findUnknownTokens(template: string, context: NamingContext): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (!(match[1] in context)) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+/**
+ * 渲染不含扩展名的文件名；缺失的值替换为空
+ */
+export function renderFileName(template: string, context: NamingContext): string {
+  const name = template.replace(TOKEN_PATTERN, (_, token: string, format?: string) => {
+    const value = context[token];
+    return value === undefined || value === '' ? '' : formatValue(value, format);
+  });
+  return sanitizeFileName(name);
+}
+
+/**
+ * 同一文件夹内重名时追加 _2、_3…，used 会被更新；ext 为空时用于文件夹名
+ */
+export function uniqueFileName(name: string, ext: string, used: Set<string>): string {
+  const suffix = ext ? `.${ext}` : '';
+  let candidate = `${name}${suffix}`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${name}_${n}${suffix}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+const formatDate = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * 帧的命名上下文；index 为精选顺序 (从 1 开始)，商品表属性可直接作为字段使用
+ */
+export function buildNamingContext(batch: ProductBatch, frame: Keyframe, index: number): NamingContext {
+  const extraction = batch.metadata?.extraction || batch.extraction;
+  // 分段编号按实际分段数补零，保证超过 9 段时文件顺序正确
+  const partDigits = String(extraction.segments).length;
+  return {
+    sku: undefined,
+    title: undefined,
+    material: undefined,
+    color: undefined,
+    ...batch.attributes,
+    productKey: batch.productKey,
+    videoId: batch.metadata?.videoId,
+    sessionTime: batch.metadata?.sessionTime,
+    index,
+    partId: String(frame.partId).padStart(partDigits, '0'),
+    rankId: frame.rankId,
+    globalRank: frame.globalRank,
+    timestamp: frame.timestamp !== undefined ? Math.round(frame.timestamp * 100) / 100 : undefined,
+    sourceFile: (frame.sourceFile || batch.fileName).replace(/\.[^.]+$/, ''),
+    label: frame.label,
+    date: formatDate(batch.metadata?.captureDate ?? batch.rawFile?.lastModified ?? Date.now())
+  };
+}
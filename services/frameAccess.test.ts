@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  detectFrameHdr,
+  isBlankPixels,
+  seekFrame,
+  waitForDecodedFrame
+} from './frameAccess';
+
+type FrameCallback = (now: number, metadata: { mediaTime: number }) => void;
+
+/**
+ * 假视频元素：设置 currentTime 后按 respond 决定是否 (以及何时) 派发 seeked，
+ * presentedTime 存在时通过 requestVideoFrameCallback 报告实际呈现的媒体时间
+ */
+class FakeVideo extends EventTarget {
+  seeks: number[] = [];
+  pixels = new Uint8ClampedArray(4);
+  private time = 0;
+  private pending: FrameCallback[] = [];
+
+  constructor(
+    private respond: (attempt: number) => boolean,
+    private presentedTime?: (time: number) => number,
+    frameCallback = false
+  ) {
+    super();
+    if (frameCallback) {
+      Object.assign(this, {
+        requestVideoFrameCallback: (cb: FrameCallback) => this.pending.push(cb),
+        cancelVideoFrameCallback: () => { this.pending = []; }
+      });
+    }
+  }
+
+  get currentTime() {
+    return this.time;
+  }
+
+  set currentTime(value: number) {
+    const attempt = this.seeks.push(value) - 1;
+    if (!this.respond(attempt)) return;
+    setTimeout(() => {
+      this.time = value + 0.004; // 寻帧后 currentTime 停在请求时间附近，而非帧的实际时间
+      if (this.presentedTime) {
+        const callbacks = this.pending;
+        this.pending = [];
+        callbacks.forEach(cb => cb(0, { mediaTime: this.presentedTime!(value) }));
+      }
+      this.dispatchEvent(new Event('seeked'));
+    }, 10);
+  }
+}
+
+const asVideo = (fake: FakeVideo) => fake as unknown as HTMLVideoElement;
+
+// 灰度像素，luma 依次取 values
+const gray = (...values: number[]) => Uint8ClampedArray.from(values.flatMap(v => [v, v, v, 255]));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('seekFrame', () => {
+  it('超时后重新赋值 currentTime 重试', async () => {
+    const video = new FakeVideo(attempt => attempt > 0);
+    const result = seekFrame(asVideo(video), 2, { timeoutMs: 500, retries: 2 });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(video.seeks).toEqual([2]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(video.seeks).toEqual([2, 2]);
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(result).resolves.toBeCloseTo(2.004);
+  });
+
+  it('重试用尽后抛出 seek-timeout', async () => {
+    const video = new FakeVideo(() => false);
+    const result = seekFrame(asVideo(video), 1.5, { timeoutMs: 500, retries: 1 });
+    const assertion = expect(result).rejects.toMatchObject({ name: 'VideoProcessingError', reason: 'seek-timeout' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(video.seeks).toEqual([1.5, 1.5]);
+  });
+
+  it('支持 requestVideoFrameCallback 时返回实际呈现的媒体时间', async () => {
+    const video = new FakeVideo(() => true, time => Math.floor(time * 30) / 30, true);
+    const result = seekFrame(asVideo(video), 1.05);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(result).resolves.toBeCloseTo(31 / 30);
+  });
+
+  it('不支持帧回调时返回 currentTime', async () => {
+    const video = new FakeVideo(() => true, time => time - 0.02);
+    const result = seekFrame(asVideo(video), 1.05);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(result).resolves.toBeCloseTo(1.054);
+  });
+
+  it('帧回调未触发时等待片刻后退回 currentTime，连续错过后不再等待', async () => {
+    const video = new FakeVideo(() => true, undefined, true);
+    const settled: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      const result = seekFrame(asVideo(video), i).then(t => settled.push(t));
+      await vi.advanceTimersByTimeAsync(10);
+      // 前两次在 seeked 后仍等待帧回调
+      expect(settled).toHaveLength(i < 2 ? i : i + 1);
+      await vi.advanceTimersByTimeAsync(80);
+      await result;
+    }
+    expect(settled.map(t => +t.toFixed(3))).toEqual([0.004, 1.004, 2.004]);
+  });
+
+  it('中止时以 signal 的原因拒绝', async () => {
+    const controller = new AbortController();
+    const video = new FakeVideo(() => false);
+    const result = seekFrame(asVideo(video), 1, { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('黑屏检测', () => {
+  it('isBlankPixels：过暗或几乎没有明暗变化的画面视为黑屏', () => {
+    expect(isBlankPixels(gray(0, 4, 10, 15))).toBe(true);
+    expect(isBlankPixels(gray(128, 129, 130, 128))).toBe(true);
+    expect(isBlankPixels(gray(20, 60, 200, 90))).toBe(false);
+  });
+
+  it('waitForDecodedFrame：黑帧多次检查后解码完成返回 true，始终黑屏返回 false', async () => {
+    // 探测画布：drawImage 记下视频当前的像素，getImageData 原样返回
+    let drawn = new Uint8ClampedArray(4);
+    const probeCtx = {
+      drawImage: (image: FakeVideo) => { drawn = image.pixels; },
+      getImageData: () => ({ data: drawn })
+    };
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => probeCtx }) });
+
+    const video = new FakeVideo(() => true);
+    video.pixels = gray(0, 0, 0, 0);
+    const decoded = waitForDecodedFrame(asVideo(video));
+    await vi.advanceTimersByTimeAsync(60);
+    video.pixels = gray(30, 90, 160, 220);
+    await vi.advanceTimersByTimeAsync(60);
+    await expect(decoded).resolves.toBe(true);
+
+    const black = new FakeVideo(() => true);
+    black.pixels = gray(2, 2, 2, 2);
+    const never = waitForDecodedFrame(asVideo(black));
+    await vi.advanceTimersByTimeAsync(180);
+    await expect(never).resolves.toBe(false);
+  });
+});
+
+describe('detectFrameHdr', () => {
+  class FakeVideoFrame {
+    static transfer: string | null = null;
+    closed = false;
+    colorSpace = { transfer: FakeVideoFrame.transfer };
+    close() { this.closed = true; }
+  }
+
+  it('按画面的传递函数识别 HLG / PQ，SDR 返回 undefined', () => {
+    vi.stubGlobal('VideoFrame', FakeVideoFrame);
+    const image = {} as CanvasImageSource;
+
+    FakeVideoFrame.transfer = 'hlg';
+    expect(detectFrameHdr(image)).toBe('hlg');
+    FakeVideoFrame.transfer = 'pq';
+    expect(detectFrameHdr(image)).toBe('pq');
+    FakeVideoFrame.transfer = 'bt709';
+    expect(detectFrameHdr(image)).toBeUndefined();
+  });
+
+  it('传入的 VideoFrame 直接读取且不关闭', () => {
+    vi.stubGlobal('VideoFrame', FakeVideoFrame);
+    FakeVideoFrame.transfer = 'pq';
+    const frame = new FakeVideoFrame();
+
+    expect(detectFrameHdr(frame as unknown as CanvasImageSource)).toBe('pq');
+    expect(frame.closed).toBe(false);
+  });
+
+  it('不支持 WebCodecs 时返回 undefined', () => {
+    vi.stubGlobal('VideoFrame', undefined);
+    expect(detectFrameHdr({} as CanvasImageSource)).toBeUndefined();
+  });
+});
@@ -0,0 +1,333 @@
+
+import { ProcessingErrorReason, VideoSourceInfo } from '../types';
+import { describeSource } from './mediaProbe';
+
+/**
+ * 视频帧访问层：带超时与重试的寻帧、精确呈现时间、黑屏/未解码检测与旋转处理
+ */
+
+/**
+ * 单次寻帧的超时时间 (毫秒)，超时后重试
+ */
+export const SEEK_TIMEOUT_MS = 8000;
+export const SEEK_RETRIES = 2;
+
+// seeked 之后等待 requestVideoFrameCallback 的时间；连续错过后该视频不再等待
+const FRAME_CALLBACK_GRACE_MS = 80;
+const FRAME_CALLBACK_MAX_MISSES = 2;
+
+// 黑屏帧重新检查的次数与间隔
+const BLANK_RETRIES = 3;
+const BLANK_RETRY_DELAY_MS = 60;
+const PROBE_SIZE = 16;
+
+export const PROCESSING_ERROR_MESSAGES: Record<ProcessingErrorReason, string> = {
+  'unsupported-codec': '浏览器无法解码该视频的编码格式 (如部分 HEVC / ProRes)，请转码为 H.264 MP4 后重试',
+  'zero-duration': '视频时长为 0 或无法读取，文件可能不完整',
+  'seek-timeout': '跳转到指定时间超时，视频可能已损坏或关键帧间隔过大',
+  'decode-error': '视频解码失败，文件可能已损坏',
+  'undecodable-images': '所有图片均无法解码或为黑屏，HEIC 请在 Safari 中处理或先转为 JPEG',
+  'unknown': '处理失败'
+};
+
+/**
+ * 带原因分类的处理错误；message 为可直接展示的说明
+ */
+export class VideoProcessingError extends Error {
+  readonly reason: ProcessingErrorReason;
+
+  constructor(reason: ProcessingErrorReason, detail?: string) {
+    super(detail ? `${PROCESSING_ERROR_MESSAGES[reason]} (${detail})` : PROCESSING_ERROR_MESSAGES[reason]);
+    this.name = 'VideoProcessingError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * AbortSignal 触发的中止 (取消或暂停)，不视为处理失败
+ */
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+function mediaError(error: MediaError | null, source?: VideoSourceInfo | null): VideoProcessingError {
+  const detail = [source && describeSource(source), error?.message].filter(Boolean).join('，') || undefined;
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: return new VideoProcessingError('unsupported-codec', detail);
+    case MediaError.MEDIA_ERR_DECODE: return new VideoProcessingError('decode-error', detail);
+    default: return new VideoProcessingError('unknown', detail);
+  }
+}
+
+/**
+ * 加载视频元数据，并检查时长与画面尺寸是否可用；source 为容器探测结果，用于补充错误说明
+ */
+export function loadVideo(video: HTMLVideoElement, src: string, signal?: AbortSignal, source?: VideoSourceInfo | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const cleanup = () => {
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+    video.onloadedmetadata = () => {
+      cleanup();
+      if (!Number.isFinite(video.duration) || video.duration <= 0) return reject(new VideoProcessingError('zero-duration'));
+      // 只有音轨、或视频轨编码不受支持时，元数据可以加载但画面尺寸为 0
+      if (!video.videoWidth || !video.videoHeight) {
+        return reject(new VideoProcessingError('unsupported-codec', source ? describeSource(source) : undefined));
+      }
+      resolve();
+    };
+    video.onerror = () => {
+      cleanup();
+      reject(mediaError(video.error, source));
+    };
+    signal?.addEventListener('abort', onAbort);
+    video.src = src;
+  });
+}
+
+// 各视频元素连续错过帧回调的次数
+const frameCallbackMisses = new WeakMap<HTMLVideoElement, number>();
+
+const supportsFrameCallback = (video: HTMLVideoElement) =>
+  typeof video.requestVideoFrameCallback === 'function' &&
+  (frameCallbackMisses.get(video) || 0) < FRAME_CALLBACK_MAX_MISSES;
+
+/**
+ * 单次寻帧：等待 seeked，支持时再等待该帧实际呈现，返回画面的媒体时间
+ */
+function seekOnce(video: HTMLVideoElement, time: number, timeoutMs: number, signal?: AbortSignal): Promise<number> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const useCallback = supportsFrameCallback(video);
+    let presented: number | undefined;
+    let seeked = false;
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+    let handle: number | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      clearTimeout(graceTimer);
+      if (handle !== undefined) video.cancelVideoFrameCallback(handle);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const finish = () => {
+      cleanup();
+      if (useCallback) frameCallbackMisses.set(video, presented === undefined ? (frameCallbackMisses.get(video) || 0) + 1 : 0);
+      resolve(presented ?? video.currentTime);
+    };
+    const onSeeked = () => {
+      seeked = true;
+      if (!useCallback || presented !== undefined) finish();
+      else graceTimer = setTimeout(finish, FRAME_CALLBACK_GRACE_MS);
+    };
+    const onError = () => {
+      cleanup();
+      reject(mediaError(video.error));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new VideoProcessingError('seek-timeout', `${time.toFixed(2)}s`));
+    }, timeoutMs);
+
+    if (useCallback) {
+      handle = video.requestVideoFrameCallback((_now, metadata) => {
+        handle = undefined;
+        presented = metadata.mediaTime;
+        if (seeked) finish();
+      });
+    }
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    video.currentTime = time;
+  });
+}
+
+export interface SeekOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+/**
+ * 跳转到指定时间并等待画面就绪，超时后重试；返回实际呈现画面的媒体时间
+ */
+export async function seekFrame(video: HTMLVideoElement, time: number, options: SeekOptions = {}): Promise<number> {
+  const { signal, timeoutMs = SEEK_TIMEOUT_MS, retries = SEEK_RETRIES } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await seekOnce(video, time, timeoutMs, signal);
+    } catch (err) {
+      // 卡住的解码器通常在重新赋值 currentTime 后恢复
+      if (!(err instanceof VideoProcessingError && err.reason === 'seek-timeout') || attempt >= retries) throw err;
+    }
+  }
+}
+
+/**
+ * 黑屏或未解码判断 (纯函数)：整体过暗，或整幅画面几乎没有明暗变化
+ */
+export function isBlankPixels(data: Uint8ClampedArray, darkThreshold = 16, minRange = 3): boolean {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    if (luma < min) min = luma;
+    if (luma > max) max = luma;
+  }
+  return max < darkThreshold || max - min < minRange;
+}
+
+let probeCtx: CanvasRenderingContext2D | null = null;
+
+/**
+ * 在 16×16 探测画布上检查画面是否为黑屏
+ */
+export function isBlankImage(image: CanvasImageSource): boolean {
+  if (!probeCtx) {
+    const canvas = document.createElement('canvas');
+    canvas.width = PROBE_SIZE;
+    canvas.height = PROBE_SIZE;
+    probeCtx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!probeCtx) return false;
+  }
+  probeCtx.drawImage(image, 0, 0, PROBE_SIZE, PROBE_SIZE);
+  return isBlankPixels(probeCtx.getImageData(0, 0, PROBE_SIZE, PROBE_SIZE).data);
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * 等待当前画面解码完成：寻帧完成后部分浏览器仍会短暂呈现黑帧，多次检查仍为黑屏时返回 false
+ */
+export async function waitForDecodedFrame(video: HTMLVideoElement, signal?: AbortSignal): Promise<boolean> {
+  for (let attempt = 0; attempt <= BLANK_RETRIES; attempt++) {
+    if (!isBlankImage(video)) return true;
+    if (attempt < BLANK_RETRIES) await delay(BLANK_RETRY_DELAY_MS, signal);
+  }
+  return false;
+}
+
+/**
+ * 画面几何：宽高为最终输出方向，rotation 为绘制时需手动补上的顺时针旋转
+ */
+export interface FrameGeometry {
+  width: number;
+  height: number;
+  rotation: 0 | 90 | 180 | 270;
+}
+
+/**
+ * 计算画面几何 (纯函数)。主流浏览器已按容器旋转矩阵报告显示尺寸并旋转画面；
+ * 仅当报告的仍是未旋转的轨道尺寸时才需要手动旋转
+ */
+export function resolveGeometry(videoWidth: number, videoHeight: number, source?: VideoSourceInfo | null): FrameGeometry {
+  const rotation = source?.rotation || 0;
+  const quarter = rotation === 90 || rotation === 270;
+  const unrotated = quarter && !!source?.width && !!source?.height && source.width !== source.height &&
+    Math.round(source.width) === videoWidth && Math.round(source.height) === videoHeight;
+  if (!unrotated) return { width: videoWidth, height: videoHeight, rotation: 0 };
+  return { width: videoHeight, height: videoWidth, rotation };
+}
+
+/**
+ * 将画面绘制到 width × height 的画布区域，按几何补上旋转
+ */
+export function drawVideoFrame(
+  ctx: CanvasRenderingContext2D,
+  video: CanvasImageSource,
+  geometry: FrameGeometry,
+  width: number,
+  height: number
+): void {
+  if (!geometry.rotation) {
+    ctx.drawImage(video, 0, 0, width, height);
+    return;
+  }
+  const quarter = geometry.rotation % 180 !== 0;
+  const drawWidth = quarter ? height : width;
+  const drawHeight = quarter ? width : height;
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((geometry.rotation * Math.PI) / 180);
+  ctx.drawImage(video, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.restore();
+}
+
+/**
+ * 容器中未声明色彩信息时，通过 WebCodecs 读取画面的传递函数判断 HDR
+ */
+export function detectFrameHdr(image: CanvasImageSource): 'hlg' | 'pq' | undefined {
+  if (typeof VideoFrame === 'undefined') return undefined;
+  try {
+    const owned = !(image instanceof VideoFrame);
+    const frame = owned ? new VideoFrame(image) : image;
+    const transfer = frame.colorSpace.transfer as string | null;
+    if (owned) frame.close();
+    return transfer === 'hlg' || transfer === 'pq' ? transfer : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 画面来源：寻帧 (video 元素) 或 WebCodecs 顺序解码，两者对同一时间点给出同一帧
+ */
+export interface FrameSource {
+  kind: 'seek' | 'webcodecs';
+  geometry: FrameGeometry;
+  /**
+   * 按时间升序访问各时间点的画面 (time 取不超过该时间的最后一帧)；回调返回后画面即失效。
+   * skipBlank 时黑屏画面不回调，返回跳过的数量。回调返回的 Promise 用于解码过快时限流
+   */
+  visit(
+    times: number[],
+    onFrame: (image: CanvasImageSource, time: number, mediaTime: number) => void | Promise<void>,
+    options: { signal?: AbortSignal; skipBlank: boolean }
+  ): Promise<number>;
+}
+
+/**
+ * 基于寻帧的画面来源：兼容性最好，每个时间点一次随机访问解码
+ */
+export function createSeekFrameSource(video: HTMLVideoElement, geometry: FrameGeometry): FrameSource {
+  return {
+    kind: 'seek',
+    geometry,
+    async visit(times, onFrame, { signal, skipBlank }) {
+      let blank = 0;
+      for (const time of [...times].sort((a, b) => a - b)) {
+        const mediaTime = await seekFrame(video, time, { signal });
+        // 仍为黑屏 / 未解码的画面按需跳过
+        if (!(await waitForDecodedFrame(video, signal)) && skipBlank) {
+          blank++;
+          continue;
+        }
+        onFrame(video, time, mediaTime);
+      }
+      return blank;
+    }
+  };
+}
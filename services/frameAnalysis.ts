@@ -0,0 +1,15 @@
+
+import { ScorerWeights, ScoringMode } from '../types';
+import { FrameScore, PixelBuffer, scoreFrame } from './frameScorers';
+import { measureSparkle } from './sparkleDetector';
+import { computeDHash } from './perceptualHash';
+
+/**
+ * 单帧完整分析 (纯函数)：综合评分 + 感知哈希，火彩模式附带高光统计。Worker 与主线程兜底共用
+ */
+export function analyzeFrame(pixels: PixelBuffer, weights?: ScorerWeights, mode?: ScoringMode): FrameScore {
+  const result = scoreFrame(pixels, weights);
+  result.hash = computeDHash(pixels);
+  if (mode === 'sparkle') result.sparkle = measureSparkle(pixels);
+  return result;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { ScorerId } from '../types';
+import { DEFAULT_SCORER_WEIGHTS, PixelBuffer, prepareFrame, SCORER_REGISTRY, scoreFrame } from './frameScorers';
+import { analyzeFrame } from './frameAnalysis';
+import { scoreAnalysisFrame } from './scoringPool';
+
+/**
+ * 黄金值测试：固定的合成画面与各评分器的原始输出、综合评分一一对应。
+ * 评分逻辑有意调整时需同步更新这里的数值，意外变化即视为回归
+ */
+
+const W = 48;
+const H = 32;
+
+function synthesize(pixel: (x: number, y: number) => [number, number, number]): PixelBuffer {
+  const data = new Uint8ClampedArray(W * H * 4);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) data.set([...pixel(x, y), 255], (y * W + x) * 4);
+  }
+  return { data, width: W, height: H };
+}
+
+const SPARKLE_COLORS: [number, number, number][] = [[255, 80, 80], [80, 255, 120], [120, 140, 255], [255, 255, 255]];
+
+const IMAGES = {
+  // 4px 黑白棋盘格：锐利、双向边缘均衡
+  checker: synthesize((x, y) => ((x >> 2) + (y >> 2)) % 2 ? [230, 230, 230] : [20, 20, 20]),
+  // 平滑渐变：几乎没有二阶导数
+  gradient: synthesize((x, y) => [x * 5, y * 7, 128]),
+  // 水平条纹：只有垂直方向梯度，等同单向拖影
+  stripes: synthesize((_x, y) => (y >> 1) % 2 ? [200, 180, 40] : [40, 60, 200]),
+  // 白底中央的小商品：大面积高光溢出
+  product: synthesize((x, y) => Math.hypot(x - 24, y - 16) < 8
+    ? ((x + y) % 3 ? [255, 255, 255] : [90, 60, 20])
+    : [252, 252, 252]),
+  // 暗背景上散布的单像素彩色光斑
+  sparkle: synthesize((x, y) => x % 6 === 3 && y % 5 === 2
+    ? SPARKLE_COLORS[(x + y) % 4]
+    : [30 + (x % 4) * 10, 30, 40])
+};
+
+type ImageName = keyof typeof IMAGES;
+
+const GOLDEN_RAW: Record<ImageName, Record<ScorerId, number>> = {
+  checker: { laplacian: 5128.824450162691, tenengrad: 164475.8779875792, center: 5143.467306361884, clipping: 0, motion: 0.9410011920242083, fill: 1 },
+  gradient: { laplacian: 2.939355046200742e-10, tenengrad: 1223.6099862920344, center: 2.9027607176843313e-10, clipping: 0, motion: 0.13237625889087953, fill: 1 },
+  stripes: { laplacian: 995.9656957209781, tenengrad: 22491.418127633733, center: 1064.0021382664493, clipping: 0, motion: 0.00823580080532664, fill: 1 },
+  product: { laplacian: 67.35652932142433, tenengrad: 2456.11507201533, center: 118.74932570104802, clipping: 0.95703125, motion: 1, fill: 0.146484375 },
+  sparkle: { laplacian: 335.0929059335341, tenengrad: 2733.7668901702004, center: 329.24532418085073, clipping: 0.03125, motion: 0.9308322992522058, fill: 0.7278645833333334 }
+};
+
+const GOLDEN: Record<ImageName, { score: number; hash: string }> = {
+  checker: { score: 89.41001192024208, hash: '24db24db24db24db' },
+  gradient: { score: 26.990937431139102, hash: '0000000000000000' },
+  stripes: { score: 80.08235575649027, hash: '0000000000000000' },
+  product: { score: 71.42791407703807, hash: '0000303028300000' },
+  sparkle: { score: 92.20684968847172, hash: '6a2424a56e6a2424' }
+};
+
+const names = Object.keys(IMAGES) as ImageName[];
+
+describe('评分器黄金值', () => {
+  (Object.keys(SCORER_REGISTRY) as ScorerId[]).forEach(id => {
+    it(`${id} 原始输出`, () => {
+      names.forEach(name => {
+        const raw = SCORER_REGISTRY[id].measure(prepareFrame(IMAGES[name]));
+        expect(raw, name).toBeCloseTo(GOLDEN_RAW[name][id], 6);
+      });
+    });
+  });
+
+  it('清晰画面高于渐变，单向条纹的运动模糊分最低', () => {
+    const normalized = (name: ImageName, id: ScorerId) =>
+      SCORER_REGISTRY[id].normalize(GOLDEN_RAW[name][id]);
+    expect(normalized('checker', 'laplacian')).toBeGreaterThan(normalized('gradient', 'laplacian'));
+    expect(normalized('stripes', 'motion')).toBeLessThan(normalized('checker', 'motion'));
+    expect(normalized('product', 'clipping')).toBe(0);
+  });
+
+  it('商品占比：理想区间满分，过小按比例扣分，铺满画面 (无法区分背景) 为 0', () => {
+    const fill = SCORER_REGISTRY.fill;
+    expect(fill.normalize(0.5)).toBe(1);
+    expect(fill.normalize(GOLDEN_RAW.product.fill)).toBeCloseTo(0.48828125, 6);
+    expect(fill.normalize(1)).toBe(0);
+
+    const large = synthesize((x, y) => Math.hypot(x - 24, y - 16) < 13 ? [90, 60, 20] : [252, 252, 252]);
+    expect(fill.measure(prepareFrame(large))).toBeGreaterThan(GOLDEN_RAW.product.fill);
+    expect(fill.normalize(fill.measure(prepareFrame(large)))).toBe(1);
+  });
+});
+
+describe('综合评分', () => {
+  it('默认权重下 analyzeFrame 的评分与感知哈希', () => {
+    names.forEach(name => {
+      const result = analyzeFrame(IMAGES[name], DEFAULT_SCORER_WEIGHTS, 'sharpness');
+      expect(result.score, name).toBeCloseTo(GOLDEN[name].score, 6);
+      expect(result.hash, name).toBe(GOLDEN[name].hash);
+      expect(result.sparkle).toBeUndefined();
+      expect(result.metrics.map(m => m.id)).toEqual(Object.keys(SCORER_REGISTRY));
+    });
+  });
+
+  it('火彩模式附带高光统计', () => {
+    const { sparkle } = analyzeFrame(IMAGES.sparkle, undefined, 'sparkle');
+    expect(sparkle).toMatchObject({ highlights: 48, fireHighlights: 36 });
+    expect(sparkle!.dispersion).toBeCloseTo(0.901404918658881, 6);
+    expect(sparkle!.score).toBeCloseTo(93.32897363937307, 6);
+    expect(analyzeFrame(IMAGES.checker, undefined, 'sparkle').sparkle!.score).toBe(0);
+  });
+
+  it('权重为 0 的评分器跳过，其余按权重归一化', () => {
+    const result = scoreFrame(IMAGES.product, { laplacian: 1, clipping: 1, motion: 0 });
+    expect(result.metrics.map(m => m.id)).toEqual(['laplacian', 'clipping']);
+    expect(result.score).toBeCloseTo(33.72851509668107, 6);
+    expect(scoreFrame(IMAGES.product, {}).score).toBe(0);
+  });
+
+  it('scoreAnalysisFrame 在没有 Worker 的环境中于主线程得出相同结果', async () => {
+    const canvas = { width: W, height: H } as HTMLCanvasElement;
+    const ctx = { getImageData: () => ({ ...IMAGES.product }) } as unknown as CanvasRenderingContext2D;
+
+    const result = await scoreAnalysisFrame(canvas, ctx, { laplacian: 1, clipping: 1 }, 'sharpness');
+    expect(result.score).toBeCloseTo(33.72851509668107, 6);
+    expect(result.hash).toBe(GOLDEN.product.hash);
+
+    const defaults = await scoreAnalysisFrame(canvas, ctx);
+    expect(defaults.score).toBeCloseTo(GOLDEN.product.score, 6);
+  });
+});
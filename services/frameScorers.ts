@@ -0,0 +1,296 @@
+
+import { MetricScore, ScorerId, ScorerWeights, SparkleStats } from '../types';
+
+/**
+ * 帧质量评分器 (纯函数，不依赖 DOM，可在 Worker 与 Node 中运行)
+ */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * 各评分器共用的预处理结果，避免每个评分器重复灰度化
+ */
+export interface FrameContext {
+  pixels: PixelBuffer;
+  gray: Float32Array;     // 原始灰度
+  smoothed: Float32Array; // 3x3 均值滤波后的灰度，用于抑制传感器噪点
+  sobel?: SobelEnergy;    // 梯度能量缓存，由首个需要的评分器计算
+}
+
+interface SobelEnergy {
+  ex: number;
+  ey: number;
+  count: number;
+}
+
+export interface FrameScorer {
+  id: ScorerId;
+  name: string;
+  description: string;
+  /** 返回原始指标 */
+  measure(frame: FrameContext): number;
+  /** 将原始指标映射到 0-1，越高越好 */
+  normalize(raw: number): number;
+}
+
+export interface FrameScore {
+  score: number; // 综合评分 0-100
+  metrics: MetricScore[];
+  sparkle?: SparkleStats; // 仅火彩模式下计算
+  hash?: string;          // 感知哈希，用于近似重复判断
+}
+
+export const DEFAULT_SCORER_WEIGHTS: Required<ScorerWeights> = {
+  laplacian: 0.3,
+  tenengrad: 0.2,
+  center: 0.2,
+  clipping: 0.1,
+  motion: 0.1,
+  fill: 0.1
+};
+
+// 饱和映射：原始值达到 scale 时约为 0.63，避免单一极端值主导综合评分
+const saturate = (raw: number, scale: number) => 1 - Math.exp(-Math.max(0, raw) / scale);
+
+export function prepareFrame(pixels: PixelBuffer): FrameContext {
+  const { data, width, height } = pixels;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i += 4) {
+    gray[i / 4] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+
+  const smoothed = new Float32Array(gray);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      smoothed[idx] = (
+        gray[idx - width - 1] + gray[idx - width] + gray[idx - width + 1] +
+        gray[idx - 1] + gray[idx] + gray[idx + 1] +
+        gray[idx + width - 1] + gray[idx + width] + gray[idx + width + 1]
+      ) / 9;
+    }
+  }
+
+  return { pixels, gray, smoothed };
+}
+
+function laplacianAt(src: Float32Array, idx: number, width: number): number {
+  return -4 * src[idx] + src[idx - 1] + src[idx + 1] + src[idx - width] + src[idx + width];
+}
+
+/**
+ * 拉普拉斯方差：在降噪后的灰度图上计算完整方差 (不再跳过零值，避免偏差)
+ */
+const laplacianScorer: FrameScorer = {
+  id: 'laplacian',
+  name: '拉普拉斯方差',
+  description: '二阶导数方差，衡量整体锐度',
+  measure({ pixels: { width, height }, smoothed }) {
+    let sum = 0;
+    let sumSq = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const val = laplacianAt(smoothed, y * width + x, width);
+        sum += val;
+        sumSq += val * val;
+        count++;
+      }
+    }
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSq / count - mean * mean;
+  },
+  normalize: (raw) => saturate(raw, 60)
+};
+
+/**
+ * Tenengrad：Sobel 梯度能量，对真实边缘敏感、对孤立噪点不敏感
+ */
+function sobelEnergy(frame: FrameContext): SobelEnergy {
+  if (frame.sobel) return frame.sobel;
+  const { pixels: { width, height }, smoothed } = frame;
+  let ex = 0;
+  let ey = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const gx =
+        -smoothed[idx - width - 1] + smoothed[idx - width + 1] +
+        -2 * smoothed[idx - 1] + 2 * smoothed[idx + 1] +
+        -smoothed[idx + width - 1] + smoothed[idx + width + 1];
+      const gy =
+        -smoothed[idx - width - 1] - 2 * smoothed[idx - width] - smoothed[idx - width + 1] +
+        smoothed[idx + width - 1] + 2 * smoothed[idx + width] + smoothed[idx + width + 1];
+      ex += gx * gx;
+      ey += gy * gy;
+      count++;
+    }
+  }
+  frame.sobel = { ex, ey, count };
+  return frame.sobel;
+}
+
+const tenengradScorer: FrameScorer = {
+  id: 'tenengrad',
+  name: 'Tenengrad 梯度能量',
+  description: 'Sobel 梯度平方均值，衡量边缘强度',
+  measure(frame) {
+    const { ex, ey, count } = sobelEnergy(frame);
+    return count === 0 ? 0 : (ex + ey) / count;
+  },
+  normalize: (raw) => saturate(raw, 800)
+};
+
+/**
+ * 运动模糊方向：水平与垂直梯度能量之比，单向拖影会使比值明显偏低
+ */
+const motionScorer: FrameScorer = {
+  id: 'motion',
+  name: '运动模糊',
+  description: '水平/垂直梯度均衡度，越接近 1 越无拖影',
+  measure(frame) {
+    const { ex, ey } = sobelEnergy(frame);
+    const max = Math.max(ex, ey);
+    return max === 0 ? 0 : Math.min(ex, ey) / max;
+  },
+  normalize: (raw) => Math.min(1, Math.max(0, raw))
+};
+
+/**
+ * 高光溢出惩罚：抛光金属反光过曝会丢失细节，溢出像素占比越高得分越低
+ */
+const clippingScorer: FrameScorer = {
+  id: 'clipping',
+  name: '高光溢出',
+  description: '任一通道 ≥ 250 的像素占比',
+  measure({ pixels: { data } }) {
+    let clipped = 0;
+    const total = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i] >= 250 || data[i + 1] >= 250 || data[i + 2] >= 250) clipped++;
+    }
+    return total === 0 ? 0 : clipped / total;
+  },
+  // 溢出 5% 即视为严重过曝
+  normalize: (raw) => Math.max(0, 1 - raw / 0.05)
+};
+
+/**
+ * 中心加权锐度：商品通常位于画面中央，边缘背景的锐度权重更低
+ */
+const centerScorer: FrameScorer = {
+  id: 'center',
+  name: '中心锐度',
+  description: '以画面中心为权重的拉普拉斯能量',
+  measure({ pixels: { width, height }, smoothed }) {
+    const cx = width / 2;
+    const cy = height / 2;
+    const sigma2 = 2 * Math.pow(Math.min(width, height) / 3, 2);
+    let energy = 0;
+    let weightSum = 0;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const w = Math.exp(-((x - cx) * (x - cx) + (y - cy) * (y - cy)) / sigma2);
+        const val = laplacianAt(smoothed, y * width + x, width);
+        energy += w * val * val;
+        weightSum += w;
+      }
+    }
+    return weightSum === 0 ? 0 : energy / weightSum;
+  },
+  normalize: (raw) => saturate(raw, 60)
+};
+
+/**
+ * 商品占画面比例：以边框像素均值估计背景色，与之色差明显的像素视为商品，
+ * 取其外接矩形面积占比 (戒圈等镂空商品也按整体计算)；行列中零星的噪点不计入外接矩形
+ */
+const FILL_COLOR_THRESHOLD = 60; // RGB 三通道色差之和
+const FILL_MIN_LINE_RATIO = 0.02; // 行 / 列中商品像素占比低于此值视为噪点
+
+const fillScorer: FrameScorer = {
+  id: 'fill',
+  name: '商品占比',
+  description: '商品外接矩形占画面面积的比例',
+  measure({ pixels: { data, width, height } }) {
+    if (width < 3 || height < 3) return 0;
+    let br = 0;
+    let bg = 0;
+    let bb = 0;
+    let border = 0;
+    const addBorder = (p: number) => {
+      br += data[p * 4];
+      bg += data[p * 4 + 1];
+      bb += data[p * 4 + 2];
+      border++;
+    };
+    for (let x = 0; x < width; x++) { addBorder(x); addBorder((height - 1) * width + x); }
+    for (let y = 1; y < height - 1; y++) { addBorder(y * width); addBorder(y * width + width - 1); }
+    br /= border;
+    bg /= border;
+    bb /= border;
+
+    const rows = new Uint32Array(height);
+    const cols = new Uint32Array(width);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        if (Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb) > FILL_COLOR_THRESHOLD) {
+          rows[y]++;
+          cols[x]++;
+        }
+      }
+    }
+    const extent = (counts: Uint32Array, length: number) => {
+      const min = Math.max(1, length * FILL_MIN_LINE_RATIO);
+      const first = counts.findIndex(c => c >= min);
+      if (first < 0) return 0;
+      let last = counts.length - 1;
+      while (counts[last] < min) last--;
+      return last - first + 1;
+    };
+    return (extent(rows, width) * extent(cols, height)) / (width * height);
+  },
+  // 占比 30%-80% 为理想构图；过小细节不足，过大则商品多半被裁切或背景未能区分
+  normalize: (raw) => raw < 0.3 ? raw / 0.3 : raw <= 0.8 ? 1 : Math.max(0, (1 - raw) / 0.2)
+};
+
+export const SCORER_REGISTRY: Record<ScorerId, FrameScorer> = {
+  laplacian: laplacianScorer,
+  tenengrad: tenengradScorer,
+  center: centerScorer,
+  clipping: clippingScorer,
+  motion: motionScorer,
+  fill: fillScorer
+};
+
+/**
+ * 按权重组合各评分器，权重为 0 的评分器直接跳过
+ */
+export function scoreFrame(pixels: PixelBuffer, weights: ScorerWeights = DEFAULT_SCORER_WEIGHTS): FrameScore {
+  const frame = prepareFrame(pixels);
+  const metrics: MetricScore[] = [];
+  let weighted = 0;
+  let weightSum = 0;
+
+  (Object.keys(SCORER_REGISTRY) as ScorerId[]).forEach((id) => {
+    const weight = weights[id] ?? 0;
+    if (weight <= 0) return;
+    const scorer = SCORER_REGISTRY[id];
+    const raw = scorer.measure(frame);
+    const normalized = scorer.normalize(raw);
+    metrics.push({ id, raw, normalized, weight });
+    weighted += normalized * weight;
+    weightSum += weight;
+  });
+
+  return {
+    score: weightSum === 0 ? 0 : (weighted / weightSum) * 100,
+    metrics
+  };
+}
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GenerateContentParameters } from '@google/genai';
+import { Keyframe } from '../types';
+import { analyzeFrames, GenAiClient, MISSING_API_KEY_MESSAGE } from './geminiService';
+
+const makeFrame = (id: string): Keyframe => ({
+  id,
+  dataUrl: 'data:image/jpeg;base64,AAAA',
+  timestamp: 0,
+  score: 50,
+  partId: 1,
+  rankId: 1
+});
+
+const reply = (shotType = 'macro') => ({ text: JSON.stringify({ label: '细节', description: '钻石火彩', shotType }) });
+
+const promptOf = (params: GenerateContentParameters) => {
+  const contents = params.contents as { parts: { text?: string }[] };
+  return contents.parts.map(p => p.text || '').join('');
+};
+
+/**
+ * 本地 mock：记录同时进行的请求数，每个请求由测试手动完成
+ */
+function mockClient(respond: (call: number, params: GenerateContentParameters) => Promise<{ text?: string }>) {
+  const state = { calls: 0, inFlight: 0, maxInFlight: 0, prompts: [] as string[] };
+  const client: GenAiClient = {
+    models: {
+      generateContent: async (params) => {
+        const call = state.calls++;
+        state.prompts.push(promptOf(params));
+        state.inFlight++;
+        state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+        try {
+          return await respond(call, params);
+        } finally {
+          state.inFlight--;
+        }
+      }
+    }
+  };
+  return { client, state };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('analyzeFrames', () => {
+  it('同时进行的请求数不超过 concurrency', async () => {
+    const { client, state } = mockClient(() => new Promise(resolve => setTimeout(() => resolve(reply()), 5)));
+    const frames = Array.from({ length: 7 }, (_, i) => makeFrame(`f${i}`));
+
+    const results = await analyzeFrames(frames, { client, concurrency: 2 });
+
+    expect(state.calls).toBe(7);
+    expect(state.maxInFlight).toBe(2);
+    expect(results.map(f => f.id)).toEqual(frames.map(f => f.id));
+    expect(results.every(f => f.aiStatus === 'done' && f.shotType === 'macro')).toBe(true);
+  });
+
+  it('失败后按指数退避重试，成功后写入结果', async () => {
+    vi.useFakeTimers();
+    const { client, state } = mockClient(async (call) => {
+      if (call < 2) throw new Error('503 overloaded');
+      return reply('hero');
+    });
+
+    const pending = analyzeFrames([makeFrame('f0')], { client, maxRetries: 2, baseDelayMs: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(state.calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(state.calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(state.calls).toBe(2);
+    // 第二次重试等待时间翻倍
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(state.calls).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(state.calls).toBe(3);
+
+    const [frame] = await pending;
+    expect(frame.aiStatus).toBe('done');
+    expect(frame.shotType).toBe('hero');
+    expect(frame.aiError).toBeUndefined();
+  });
+
+  it('重试用尽后标记为失败，不影响其他帧', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = mockClient(async (_call, params) => {
+      const data = ((params.contents as { parts: { inlineData?: { data: string } }[] }).parts[0].inlineData!).data;
+      if (data === 'BBBB') throw new Error('quota exceeded');
+      return reply();
+    });
+    const broken = { ...makeFrame('f1'), dataUrl: 'data:image/jpeg;base64,BBBB' };
+    const onFrame = vi.fn();
+
+    const results = await analyzeFrames([makeFrame('f0'), broken], { client, maxRetries: 1, baseDelayMs: 1, onFrame });
+
+    expect(results[0].aiStatus).toBe('done');
+    expect(results[1].aiStatus).toBe('error');
+    expect(results[1].aiError).toBe('quota exceeded');
+    expect(onFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it('按语言选项生成提示词，未知镜头类型不写入', async () => {
+    const { client, state } = mockClient(async () => reply('unknown'));
+
+    const [frame] = await analyzeFrames([makeFrame('f0')], { client, language: 'ja' });
+    await analyzeFrames([makeFrame('f1')], { client });
+
+    expect(state.prompts[0]).toContain('Write the label and description in Japanese.');
+    expect(state.prompts[1]).toContain('Write the label and description in Simplified Chinese.');
+    expect(frame.shotType).toBeUndefined();
+  });
+
+  it('未传入客户端且没有 API Key 时逐帧标记失败，不抛出', async () => {
+    vi.stubEnv('API_KEY', '');
+    const onFrame = vi.fn();
+
+    const results = await analyzeFrames([makeFrame('f0'), makeFrame('f1')], { onFrame });
+
+    expect(results.map(f => [f.id, f.aiStatus, f.aiError])).toEqual([
+      ['f0', 'error', MISSING_API_KEY_MESSAGE],
+      ['f1', 'error', MISSING_API_KEY_MESSAGE]
+    ]);
+    expect(onFrame).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,56 +1,187 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Keyframe } from "../types";
+import { GoogleGenAI, GenerateContentParameters, Type } from "@google/genai";
+import { AiLanguage, Keyframe, ShotType } from "../types";
 
 const MODEL_NAME = 'gemini-3-flash-preview';
 
-export async function analyzeFrames(frames: Keyframe[]): Promise<Keyframe[]> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const analyzedFrames = await Promise.all(
-    frames.map(async (frame, index) => {
-      try {
-        const base64Data = frame.dataUrl.split(',')[1];
-        const response = await ai.models.generateContent({
-          model: MODEL_NAME,
-          contents: {
-            parts: [
-              {
-                inlineData: {
-                  mimeType: 'image/jpeg',
-                  data: base64Data,
-                },
-              },
-              {
-                text: "Analyze this jewelry product frame. Provide a short, professional label (e.g., 'Full Portrait', 'Clarity Close-up', 'Lifestyle Shot') and a one-sentence marketing description highlighting the product details. Keep it in English.",
-              },
-            ],
-          },
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                label: { type: Type.STRING },
-                description: { type: Type.STRING },
-              },
-              required: ["label", "description"],
-            },
+export const SHOT_TYPES: Record<ShotType, string> = {
+  'hero': '主图',
+  'macro': '微距细节',
+  'on-model': '上身佩戴',
+  'lifestyle': '场景氛围'
+};
+
+export const AI_LANGUAGES: Record<AiLanguage, { label: string; prompt: string }> = {
+  'zh-CN': { label: '简体中文', prompt: 'Simplified Chinese' },
+  'en': { label: 'English', prompt: 'English' },
+  'ja': { label: '日本語', prompt: 'Japanese' },
+  'ko': { label: '한국어', prompt: 'Korean' },
+  'es': { label: 'Español', prompt: 'Spanish' }
+};
+
+/**
+ * 仅依赖 generateContent，便于在测试中用本地 mock 替换 GoogleGenAI
+ */
+export interface GenAiClient {
+  models: {
+    generateContent(params: GenerateContentParameters): Promise<{ text?: string }>;
+  };
+}
+
+export interface AnalyzeOptions {
+  language?: AiLanguage;
+  concurrency?: number;  // 同时进行的请求数
+  maxRetries?: number;   // 单帧失败后的重试次数
+  baseDelayMs?: number;  // 指数退避的初始等待时间
+  client?: GenAiClient;
+  onFrame?: (frame: Keyframe) => void; // 每帧完成 (成功或失败) 时回调
+}
+
+/**
+ * AI 分析写入的字段；回写时只合并这些字段，避免覆盖分析期间保存的裁剪、色彩校正与渲染结果
+ */
+export const pickAiFields = (frame: Keyframe): Partial<Keyframe> => ({
+  label: frame.label,
+  aiDescription: frame.aiDescription,
+  shotType: frame.shotType,
+  aiStatus: frame.aiStatus,
+  aiError: frame.aiError
+});
+
+export const MISSING_API_KEY_MESSAGE = '未配置 Gemini API Key (GEMINI_API_KEY)';
+
+/**
+ * 是否配置了 API Key；未配置时浏览器版 SDK 在创建客户端时即抛出错误
+ */
+export const isAiConfigured = () => !!process.env.API_KEY;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+function buildPrompt(language: AiLanguage): string {
+  return [
+    "Analyze this jewelry product frame.",
+    "Provide a short, professional label (e.g., 'Full Portrait', 'Clarity Close-up', 'Lifestyle Shot') and a one-sentence marketing description highlighting the product details.",
+    "Classify the shot type as one of: 'hero' (whole product, clean background), 'macro' (close-up of stones, settings or texture), 'on-model' (worn on a hand, neck or ear), 'lifestyle' (styled scene or props).",
+    `Write the label and description in ${AI_LANGUAGES[language].prompt}.`
+  ].join(' ');
+}
+
+/**
+ * 取得图片的 base64 数据；恢复自本地存储的帧为 blob: URL，需要先读取
+ */
+async function toBase64(src: string): Promise<string> {
+  if (src.startsWith('data:')) return src.split(',')[1];
+  const bytes = new Uint8Array(await (await fetch(src)).arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function analyzeFrame(client: GenAiClient, frame: Keyframe, language: AiLanguage): Promise<Keyframe> {
+  const base64Data = await toBase64(frame.dataUrl);
+  const response = await client.models.generateContent({
+    model: MODEL_NAME,
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: 'image/jpeg',
+            data: base64Data,
           },
-        });
+        },
+        {
+          text: buildPrompt(language),
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          description: { type: Type.STRING },
+          shotType: { type: Type.STRING, enum: Object.keys(SHOT_TYPES) },
+        },
+        required: ["label", "description", "shotType"],
+      },
+    },
+  });
+
+  const result = JSON.parse(response.text || '{}');
+  return {
+    ...frame,
+    label: result.label || frame.label,
+    aiDescription: result.description || frame.aiDescription,
+    shotType: result.shotType in SHOT_TYPES ? result.shotType : undefined,
+    aiStatus: 'done',
+    aiError: undefined
+  };
+}
+
+/**
+ * 为帧生成标签、营销文案与镜头类型。限制并发、失败后指数退避重试，单帧失败不影响其他帧
+ */
+export async function analyzeFrames(frames: Keyframe[], options: AnalyzeOptions = {}): Promise<Keyframe[]> {
+  const {
+    language = 'zh-CN',
+    concurrency = 3,
+    maxRetries = 2,
+    baseDelayMs = 1000,
+    onFrame
+  } = options;
+
+  // 客户端无法创建 (如缺少 API Key) 时，所有帧直接标记为失败，不让调用方一直停留在「分析中」
+  let client = options.client;
+  if (!client) {
+    try {
+      if (!isAiConfigured()) throw new Error(MISSING_API_KEY_MESSAGE);
+      client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    } catch (error) {
+      const aiError = error instanceof Error ? error.message : String(error);
+      return frames.map(frame => {
+        const failed: Keyframe = { ...frame, aiStatus: 'error', aiError };
+        onFrame?.(failed);
+        return failed;
+      });
+    }
+  }
+  const genAi = client;
+
+  const results: Keyframe[] = [...frames];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < frames.length) {
+      const index = next++;
+      const frame = frames[index];
+      let analyzed: Keyframe | null = null;
+      let lastError: unknown;
+
+      for (let attempt = 0; attempt <= maxRetries && !analyzed; attempt++) {
+        if (attempt > 0) await sleep(baseDelayMs * Math.pow(2, attempt - 1));
+        try {
+          analyzed = await analyzeFrame(genAi, frame, language);
+        } catch (error) {
+          lastError = error;
+        }
+      }
 
-        const result = JSON.parse(response.text || '{}');
-        return {
+      if (!analyzed) {
+        console.error("AI Analysis Error:", lastError);
+        analyzed = {
           ...frame,
-          label: result.label || `Frame ${index + 1}`,
-          aiDescription: result.description || "Jewelry showcase",
+          aiStatus: 'error',
+          aiError: lastError instanceof Error ? lastError.message : String(lastError)
         };
-      } catch (error) {
-        console.error("AI Analysis Error:", error);
-        return { ...frame, label: `Frame ${index + 1}` };
       }
-    })
-  );
+      results[index] = analyzed;
+      onFrame?.(analyzed);
+    }
+  };
 
-  return analyzedFrames;
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, frames.length)) }, worker));
+  return results;
 }
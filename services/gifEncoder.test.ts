@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { assembleGif, encodeGifFrame, lzwEncode, quantize } from './gifEncoder';
+
+/**
+ * 参考 LZW 解码器 (按 GIF89a 规范独立实现)：合并数据子块后按低位在前读取可变长码字
+ */
+function lzwDecode(blocks: Uint8Array, minCodeSize: number): { indices: number[]; codeSizes: Set<number>; clears: number } {
+  const bytes: number[] = [];
+  for (let i = 0; blocks[i] !== 0; i += blocks[i] + 1) {
+    expect(blocks[i]).toBeLessThanOrEqual(255);
+    bytes.push(...blocks.subarray(i + 1, i + 1 + blocks[i]));
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = 0;
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  let bitPos = 0;
+  const read = () => {
+    let code = 0;
+    for (let b = 0; b < codeSize; b++, bitPos++) {
+      if ((bytes[bitPos >> 3] >> (bitPos & 7)) & 1) code |= 1 << b;
+    }
+    return code;
+  };
+
+  const indices: number[] = [];
+  const codeSizes = new Set<number>();
+  let clears = 0;
+  let prev: number[] | null = null;
+  for (;;) {
+    if (bitPos + codeSize > bytes.length * 8) throw new Error('missing end code');
+    codeSizes.add(codeSize);
+    const code = read();
+    if (code === clearCode) {
+      reset();
+      prev = null;
+      clears++;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (code === table.length && prev) entry = [...prev, prev[0]];
+    else throw new Error(`invalid code ${code}`);
+    if (prev && table.length < 4096) table.push([...prev, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    indices.push(...entry);
+    prev = entry;
+  }
+  return { indices, codeSizes, clears };
+}
+
+// 可复现的伪随机序列
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x80000000;
+  };
+}
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): ImageData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...pixel(x, y), 255], (y * width + x) * 4);
+  }
+  return { data, width, height, colorSpace: 'srgb' };
+};
+
+describe('lzwEncode', () => {
+  it('参考解码器还原原始索引', () => {
+    const indices = Uint8Array.from([0, 0, 0, 1, 1, 0, 0, 0, 1, 2, 2, 2, 2, 2, 3]);
+    expect(lzwDecode(lzwEncode(indices, 2), 2).indices).toEqual(Array.from(indices));
+  });
+
+  it('任意长度的输入都以正确长度的结束码收尾 (最后一个码字使码表到达 2 的幂时)', () => {
+    const next = random(3);
+    const source = Uint8Array.from({ length: 300 }, () => Math.floor(next() * 4));
+    for (let n = 1; n <= source.length; n++) {
+      const indices = source.subarray(0, n);
+      expect(lzwDecode(lzwEncode(indices, 2), 2).indices, `length ${n}`).toEqual(Array.from(indices));
+    }
+  });
+
+  it('码字长度从 minCodeSize + 1 增长到 12 位，码表满 4096 时发送清除码', () => {
+    const next = random(7);
+    // 随机数据几乎不重复，码表很快填满
+    const indices = Uint8Array.from({ length: 40000 }, () => Math.floor(next() * 256));
+    const decoded = lzwDecode(lzwEncode(indices), 8);
+
+    expect(decoded.indices).toEqual(Array.from(indices));
+    expect([...decoded.codeSizes].sort((a, b) => a - b)).toEqual([9, 10, 11, 12]);
+    expect(decoded.clears).toBeGreaterThan(1);
+  });
+
+  it('低熵数据同样可还原，数据子块不超过 255 字节', () => {
+    const indices = Uint8Array.from({ length: 20000 }, (_, i) => (i >> 6) % 4);
+    const encoded = lzwEncode(indices);
+    expect(lzwDecode(encoded, 8).indices).toEqual(Array.from(indices));
+    expect(encoded[encoded.length - 1]).toBe(0);
+  });
+});
+
+describe('quantize', () => {
+  it('颜色少于 256 种时每种颜色独占调色板项，误差不超过 15 位量化', () => {
+    const colors: [number, number, number][] = [[255, 0, 0], [0, 128, 255], [250, 250, 250], [12, 40, 8]];
+    const { data } = image(8, 8, (x, y) => colors[(x + y) % 4]);
+    const { palette, indices } = quantize(data);
+
+    expect(new Set(indices).size).toBe(4);
+    indices.forEach((index, p) => {
+      for (let c = 0; c < 3; c++) expect(Math.abs(palette[index * 3 + c] - data[p * 4 + c])).toBeLessThanOrEqual(4);
+    });
+  });
+
+  it('颜色超出上限时切分为 maxColors 个盒子', () => {
+    const { data } = image(64, 64, (x, y) => [x * 4, y * 4, (x + y) * 2]);
+    const { indices } = quantize(data, 16);
+    expect(new Set(indices).size).toBe(16);
+    expect(Math.max(...indices)).toBeLessThan(16);
+  });
+});
+
+describe('assembleGif', () => {
+  it('文件头、循环扩展、帧数据与结束符依次排列，帧可由参考解码器还原', async () => {
+    const frameImage = image(6, 4, (x) => x < 3 ? [255, 0, 0] : [0, 0, 255]);
+    const frame = encodeGifFrame(frameImage, 7);
+    const bytes = new Uint8Array(await assembleGif(6, 4, [frame, frame], true).arrayBuffer());
+
+    expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+    expect([bytes[6] | (bytes[7] << 8), bytes[8] | (bytes[9] << 8)]).toEqual([6, 4]);
+    expect(bytes[10] & 0x80).toBe(0); // 无全局调色板
+    expect(String.fromCharCode(...bytes.subarray(16, 27))).toBe('NETSCAPE2.0');
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+
+    const start = 13 + 19;
+    expect(Array.from(bytes.subarray(start, start + frame.length))).toEqual(Array.from(frame));
+    expect(Array.from(bytes.subarray(start + frame.length, start + frame.length * 2))).toEqual(Array.from(frame));
+
+    // 图形控制扩展：延时 7/100 秒；图像描述符：局部 256 色调色板
+    expect(Array.from(frame.subarray(0, 4))).toEqual([0x21, 0xf9, 0x04, 0x04]);
+    expect(frame[4] | (frame[5] << 8)).toBe(7);
+    expect(frame[8]).toBe(0x2c);
+    expect(frame[17]).toBe(0x87);
+    const palette = frame.subarray(18, 18 + 768);
+    expect(frame[18 + 768]).toBe(8);
+    const { indices } = lzwDecode(frame.subarray(18 + 768 + 1), 8);
+    expect(indices.map(i => Array.from(palette.subarray(i * 3, i * 3 + 3)))).toEqual(
+      Array.from({ length: 24 }, (_, p) => p % 6 < 3 ? [252, 4, 4] : [4, 4, 252]));
+  });
+
+  it('不循环时省略 NETSCAPE 扩展', async () => {
+    const bytes = new Uint8Array(await assembleGif(1, 1, [], false).arrayBuffer());
+    expect(bytes.length).toBe(14);
+    expect(bytes[13]).toBe(0x3b);
+  });
+});
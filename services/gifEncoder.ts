@@ -0,0 +1,168 @@
+
+/**
+ * 动图 GIF 编码：每帧中位切分量化为独立的 256 色局部调色板，LZW 压缩后组装为 GIF89a
+ */
+
+const MAX_COLORS = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+// 15 位颜色 (每通道 5 位) 的分量
+const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+
+interface ColorBox {
+  keys: number[];
+  pixels: number;
+}
+
+/**
+ * 中位切分量化 (纯函数)：在 15 位颜色直方图上反复沿跨度最大的通道按像素数中位切分，
+ * 每个盒子取加权平均色；返回 RGB 调色板与逐像素索引
+ */
+export function quantize(data: Uint8ClampedArray, maxColors = MAX_COLORS): { palette: Uint8Array; indices: Uint8Array } {
+  const pixelCount = data.length / 4;
+  const keyOf = (i: number) => ((data[i * 4] >> 3) << 10) | ((data[i * 4 + 1] >> 3) << 5) | (data[i * 4 + 2] >> 3);
+  const histogram = new Uint32Array(1 << 15);
+  for (let i = 0; i < pixelCount; i++) histogram[keyOf(i)]++;
+
+  const keys: number[] = [];
+  histogram.forEach((count, key) => { if (count > 0) keys.push(key); });
+  const boxes: ColorBox[] = [{ keys, pixels: pixelCount }];
+
+  while (boxes.length < maxColors) {
+    // 优先切分像素最多且仍可切分的盒子
+    const target = boxes.reduce<ColorBox | null>((best, box) =>
+      box.keys.length > 1 && (!best || box.pixels > best.pixels) ? box : best, null);
+    if (!target) break;
+
+    const spans = [0, 1, 2].map(c => {
+      const values = target.keys.map(k => channel(k, c));
+      return Math.max(...values) - Math.min(...values);
+    });
+    const c = spans.indexOf(Math.max(...spans));
+    target.keys.sort((a, b) => channel(a, c) - channel(b, c));
+
+    let acc = 0;
+    let split = 1;
+    for (; split < target.keys.length - 1; split++) {
+      acc += histogram[target.keys[split - 1]];
+      if (acc >= target.pixels / 2) break;
+    }
+    const lower = target.keys.slice(0, split);
+    const upper = target.keys.slice(split);
+    const lowerPixels = lower.reduce((sum, k) => sum + histogram[k], 0);
+    boxes.splice(boxes.indexOf(target), 1,
+      { keys: lower, pixels: lowerPixels },
+      { keys: upper, pixels: target.pixels - lowerPixels });
+  }
+
+  const palette = new Uint8Array(maxColors * 3);
+  const lookup = new Uint8Array(1 << 15);
+  boxes.forEach((box, index) => {
+    const sum = [0, 0, 0];
+    box.keys.forEach(k => {
+      lookup[k] = index;
+      for (let c = 0; c < 3; c++) sum[c] += ((channel(k, c) << 3) | 4) * histogram[k];
+    });
+    for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(sum[c] / Math.max(1, box.pixels));
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) indices[i] = lookup[keyOf(i)];
+  return { palette, indices };
+}
+
+/**
+ * 可变长 LZW 编码 (纯函数)，码字按低位在前打包，再分割为不超过 255 字节的数据子块
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize = MIN_CODE_SIZE): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = prefix * 256 + k;
+    const found = dictionary.get(key);
+    if (found !== undefined) {
+      prefix = found;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // 码表已满，发送清除码重新开始
+      emit(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  // 解码器读到最后一个码字时仍会添加码表项，码表到达 2 的幂时码字随之加长，结束码需按新长度写入
+  if (nextCode >= 1 << codeSize) codeSize++;
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  const blocks: number[] = [];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+}
+
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+
+/**
+ * 编码一帧：图形控制扩展 (延时，单位 1/100 秒) + 图像描述符 + 局部调色板 + LZW 数据。
+ * 结果与位置无关，往返播放时可直接复用
+ */
+export function encodeGifFrame(image: ImageData, delayCs: number): Uint8Array {
+  const { palette, indices } = quantize(image.data);
+  const data = lzwEncode(indices);
+  const header = [
+    0x21, 0xf9, 0x04, 0x04, ...u16(delayCs), 0x00, 0x00,       // 处置方式 1：保留上一帧
+    0x2c, ...u16(0), ...u16(0), ...u16(image.width), ...u16(image.height),
+    0x80 | 0x07                                                  // 局部调色板，256 色
+  ];
+  const frame = new Uint8Array(header.length + palette.length + 1 + data.length);
+  frame.set(header);
+  frame.set(palette, header.length);
+  frame[header.length + palette.length] = MIN_CODE_SIZE;
+  frame.set(data, header.length + palette.length + 1);
+  return frame;
+}
+
+/**
+ * 组装 GIF89a 文件；loop 时写入 NETSCAPE2.0 扩展无限循环，否则只播放一次
+ */
+export function assembleGif(width: number, height: number, frames: Uint8Array[], loop: boolean): Blob {
+  const header = Uint8Array.from([
+    ...Array.from('GIF89a', ch => ch.charCodeAt(0)),
+    ...u16(width), ...u16(height), 0x70, 0x00, 0x00,             // 无全局调色板
+    ...(loop ? [0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', ch => ch.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00] : [])
+  ]);
+  return new Blob([header, ...frames, Uint8Array.from([0x3b])], { type: 'image/gif' });
+}
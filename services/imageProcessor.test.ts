@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { computeForegroundMask } from './imageProcessor';
+import { PixelBuffer } from './frameScorers';
+
+const SIZE = 40;
+
+function synthesize(pixel: (x: number, y: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let p = 0; p < SIZE * SIZE; p++) {
+    const v = pixel(p % SIZE, Math.floor(p / SIZE));
+    data.set([v, v, v, 255], p * 4);
+  }
+  return { data, width: SIZE, height: SIZE };
+}
+
+const at = (mask: Uint8ClampedArray, x: number, y: number) => mask[y * SIZE + x];
+
+describe('computeForegroundMask', () => {
+  // 白底上的戒托：深色金属环 (半径 8-14) 包住中央的白钻 (半径 < 8)
+  const setting = synthesize((x, y) => {
+    const d = Math.hypot(x - 20, y - 20);
+    if (d < 8) return 250;
+    if (d < 14) return 90;
+    return 252;
+  });
+
+  it('与边框连通的背景去除，商品保留', () => {
+    const mask = computeForegroundMask(setting);
+    expect(at(mask, 1, 1)).toBe(0);
+    expect(at(mask, 38, 20)).toBe(0);
+    expect(at(mask, 20, 9)).toBe(255);
+  });
+
+  it('被商品包围、颜色接近背景的白钻不被挖空', () => {
+    const mask = computeForegroundMask(setting);
+    expect(at(mask, 20, 20)).toBe(255);
+    expect(at(mask, 17, 22)).toBe(255);
+  });
+});
@@ -1,3 +1,179 @@
 
-// This file is no longer required as the White-BG feature has been removed.
-export {};
+import { PixelBuffer } from './frameScorers';
+
+/**
+ * 本地白底抠图：基于背景色与边缘的启发式分割，无需网络、GPU 或外部服务
+ */
+
+export interface CutoutOptions {
+  colorThreshold: number; // 与背景色的色差 (RGB 曼哈顿距离) 低于该值视为背景候选
+  edgeThreshold: number;  // 梯度高于该值视为商品边缘，阻断背景蔓延
+}
+
+export const DEFAULT_CUTOUT_OPTIONS: CutoutOptions = {
+  colorThreshold: 60,
+  edgeThreshold: 40
+};
+
+// 抠图在该分辨率下计算，再放大蒙版到原图，兼顾速度与边缘柔和
+const MASK_MAX_SIDE = 1024;
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image decode failed'));
+    img.src = src;
+  });
+}
+
+/**
+ * 解码为原尺寸画布；渲染各阶段之间传递画布，只在导出时做一次有损编码
+ */
+export async function loadCanvas(src: string): Promise<HTMLCanvasElement> {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context unavailable');
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+}
+
+/**
+ * 以四周边框像素的中位数估计背景色
+ */
+export function estimateBackground({ data, width, height }: PixelBuffer): [number, number, number] {
+  const rs: number[] = [];
+  const gs: number[] = [];
+  const bs: number[] = [];
+  const push = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    rs.push(data[i]); gs.push(data[i + 1]); bs.push(data[i + 2]);
+  };
+  for (let x = 0; x < width; x++) { push(x, 0); push(x, height - 1); }
+  for (let y = 1; y < height - 1; y++) { push(0, y); push(width - 1, y); }
+  const median = (arr: number[]) => arr.sort((a, b) => a - b)[Math.floor(arr.length / 2)] ?? 255;
+  return [median(rs), median(gs), median(bs)];
+}
+
+/**
+ * 计算前景透明度蒙版 (纯函数)，返回每像素 0-255 的 alpha：
+ * 1. 从画面边框出发，沿色差小且无明显边缘的像素泛洪，只有与边框连通的区域视为背景；
+ *    被商品包围的近背景色区域 (白钻、银饰高光) 保留为前景，避免在白底上被挖空；
+ * 2. 3x3 均值平滑蒙版，柔化锯齿边缘。
+ */
+export function computeForegroundMask(pixels: PixelBuffer, options: CutoutOptions = DEFAULT_CUTOUT_OPTIONS): Uint8ClampedArray {
+  const { data, width, height } = pixels;
+  const total = width * height;
+  const [br, bg, bb] = estimateBackground(pixels);
+
+  const gray = new Float32Array(total);
+  const colorDist = new Float32Array(total);
+  for (let p = 0; p < total; p++) {
+    const i = p * 4;
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    colorDist[p] = Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb);
+  }
+
+  const isEdge = (p: number) => {
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) return false;
+    const gx = gray[p + 1] - gray[p - 1];
+    const gy = gray[p + width] - gray[p - width];
+    return Math.abs(gx) + Math.abs(gy) > options.edgeThreshold;
+  };
+  // 与背景色几乎一致的像素即使位于边缘旁也归为背景，避免商品外圈残留一圈底色
+  const isBackgroundLike = (p: number) =>
+    colorDist[p] < options.colorThreshold / 4 || (colorDist[p] < options.colorThreshold && !isEdge(p));
+
+  // 0 = 前景, 1 = 背景
+  const background = new Uint8Array(total);
+  const stack: number[] = [];
+  const seed = (p: number) => {
+    if (background[p] === 0 && isBackgroundLike(p)) {
+      background[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) { seed(x); seed((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { seed(y * width); seed(y * width + width - 1); }
+
+  while (stack.length > 0) {
+    const p = stack.pop() as number;
+    const x = p % width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (p >= width) seed(p - width);
+    if (p < total - width) seed(p + width);
+  }
+
+  const alpha = new Uint8ClampedArray(total);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let fg = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= width) continue;
+          fg += background[yy * width + xx] === 0 ? 1 : 0;
+          count++;
+        }
+      }
+      alpha[y * width + x] = Math.round((fg / count) * 255);
+    }
+  }
+  return alpha;
+}
+
+/**
+ * 抠出商品并合成到纯色背景上，返回与原图同尺寸的画布
+ */
+export function removeBackground(
+  img: HTMLCanvasElement,
+  backgroundColor = '#ffffff',
+  options: CutoutOptions = DEFAULT_CUTOUT_OPTIONS
+): HTMLCanvasElement {
+  const width = img.width;
+  const height = img.height;
+
+  // 低分辨率计算蒙版
+  const maskScale = Math.min(1, MASK_MAX_SIDE / Math.max(width, height));
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = Math.max(1, Math.round(width * maskScale));
+  maskCanvas.height = Math.max(1, Math.round(height * maskScale));
+  const maskCtx = maskCanvas.getContext('2d', { willReadFrequently: true });
+  if (!maskCtx) throw new Error('Canvas context unavailable');
+  maskCtx.drawImage(img, 0, 0, maskCanvas.width, maskCanvas.height);
+  const pixels = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+  const alpha = computeForegroundMask(pixels, options);
+  for (let p = 0; p < alpha.length; p++) pixels.data[p * 4 + 3] = alpha[p];
+  maskCtx.putImageData(pixels, 0, 0);
+
+  // 原图尺寸下保留蒙版内的像素 (放大蒙版时的插值即为边缘羽化)
+  const cutout = document.createElement('canvas');
+  cutout.width = width;
+  cutout.height = height;
+  const cutoutCtx = cutout.getContext('2d');
+  if (!cutoutCtx) throw new Error('Canvas context unavailable');
+  cutoutCtx.imageSmoothingQuality = 'high';
+  cutoutCtx.drawImage(maskCanvas, 0, 0, width, height);
+  cutoutCtx.globalCompositeOperation = 'source-in';
+  cutoutCtx.drawImage(img, 0, 0);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outputCtx = output.getContext('2d', { alpha: false });
+  if (!outputCtx) throw new Error('Canvas context unavailable');
+  outputCtx.fillStyle = backgroundColor;
+  outputCtx.fillRect(0, 0, width, height);
+  outputCtx.drawImage(cutout, 0, 0);
+
+  return output;
+}
@@ -0,0 +1,165 @@
+
+import { VideoSourceInfo } from '../types';
+
+/**
+ * MP4 / MOV 容器探测：只读取 moov 盒，获取视频轨编码、旋转矩阵与色彩描述 (colr)，
+ * 用于识别 HDR 与浏览器可能不支持的编码
+ */
+
+export interface Box {
+  type: string;
+  start: number;  // 盒起点 (含头部)
+  body: number;   // 盒内容起点
+  end: number;
+}
+
+// moov 过大时放弃探测，避免读取整段长视频
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 64;
+
+const fourcc = (data: Uint8Array, offset: number) =>
+  String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+/**
+ * 遍历 [start, end) 范围内的同级盒 (纯函数)
+ */
+export function readBoxes(data: Uint8Array, start = 0, end = data.length): Box[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourcc(data, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset, body: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * 按路径查找子盒，如 findBox(data, moov, ['trak', 'mdia'])
+ */
+export function findBox(data: Uint8Array, parent: Box, path: string[]): Box | undefined {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    current = readBoxes(data, current.body, current.end).find(b => b.type === type);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+async function readRange(file: Blob, start: number, length: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+}
+
+/**
+ * 在文件顶层定位 moov 盒并读入内存；moov 在文件头或文件尾 (未做 faststart) 均可
+ */
+export async function readMoov(file: Blob): Promise<{ data: Uint8Array; moov: Box } | null> {
+  let offset = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= file.size; i++) {
+    const head = await readRange(file, offset, 16);
+    const view = new DataView(head.buffer);
+    let size = view.getUint32(0);
+    const type = fourcc(head, 4);
+    if (size === 1) size = view.getUint32(8) * 2 ** 32 + view.getUint32(12);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      const data = await readRange(file, offset, size);
+      const moov = readBoxes(data)[0];
+      return moov ? { data, moov } : null;
+    }
+    offset += size;
+  }
+  return null;
+}
+
+// 视觉采样描述 (VisualSampleEntry) 的固定字段长度，其后为 avcC / hvcC / colr 等子盒
+const VISUAL_SAMPLE_ENTRY_FIELDS = 78;
+
+/**
+ * 从 tkhd 变换矩阵计算顺时针旋转角度 (纯函数)
+ */
+export function matrixRotation(a: number, b: number): 0 | 90 | 180 | 270 {
+  const degrees = Math.round((Math.atan2(b, a) * 180) / Math.PI / 90) * 90;
+  return (((degrees % 360) + 360) % 360) as 0 | 90 | 180 | 270;
+}
+
+function parseTkhd(data: Uint8Array, tkhd: Box): Pick<VideoSourceInfo, 'width' | 'height' | 'rotation'> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = data[tkhd.body];
+  // 版本 0 / 1 的时间字段长度不同，其后依次为保留字段、图层、音量、矩阵与宽高
+  const matrix = tkhd.body + (version === 1 ? 36 : 24) + 16;
+  const a = view.getInt32(matrix) / 65536;
+  const b = view.getInt32(matrix + 4) / 65536;
+  return {
+    rotation: matrixRotation(a, b),
+    width: view.getUint32(matrix + 36) / 65536,
+    height: view.getUint32(matrix + 40) / 65536
+  };
+}
+
+/**
+ * 解析 moov 中的视频轨 (纯函数)
+ */
+export function parseVideoTrack(data: Uint8Array, moov: Box): VideoSourceInfo | null {
+  const track = readBoxes(data, moov.body, moov.end)
+    .filter(b => b.type === 'trak')
+    .find(trak => {
+      const hdlr = findBox(data, trak, ['mdia', 'hdlr']);
+      return hdlr && fourcc(data, hdlr.body + 8) === 'vide';
+    });
+  if (!track) return null;
+
+  const tkhd = findBox(data, track, ['tkhd']);
+  const info: VideoSourceInfo = tkhd ? parseTkhd(data, tkhd) : { rotation: 0 };
+
+  const stsd = findBox(data, track, ['mdia', 'minf', 'stbl', 'stsd']);
+  const entry = stsd && readBoxes(data, stsd.body + 8, stsd.end)[0];
+  if (!entry) return info;
+  info.codec = entry.type;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  readBoxes(data, entry.body + VISUAL_SAMPLE_ENTRY_FIELDS, entry.end).forEach(child => {
+    if (child.type === 'dvcC' || child.type === 'dvvC') info.dolbyVision = true;
+    // nclx (MP4) 与 nclc (QuickTime) 的前三个字段相同：色域、传递函数、矩阵
+    if (child.type === 'colr' && ['nclx', 'nclc'].includes(fourcc(data, child.body))) {
+      const transfer = view.getUint16(child.body + 6);
+      if (transfer === 18) info.hdr = 'hlg';
+      else if (transfer === 16) info.hdr = 'pq';
+    }
+  });
+  if (['dvh1', 'dvhe', 'dva1', 'dvav'].includes(entry.type)) info.dolbyVision = true;
+  return info;
+}
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264', avc3: 'H.264',
+  hvc1: 'HEVC', hev1: 'HEVC',
+  dvh1: 'Dolby Vision', dvhe: 'Dolby Vision', dva1: 'Dolby Vision', dvav: 'Dolby Vision',
+  av01: 'AV1', vp09: 'VP9',
+  apcn: 'ProRes', apch: 'ProRes', apcs: 'ProRes', apco: 'ProRes', ap4h: 'ProRes 4444', ap4x: 'ProRes 4444 XQ'
+};
+
+/**
+ * 可读的编码描述，如 "HEVC · HDR (HLG) · Dolby Vision"
+ */
+export function describeSource(info: VideoSourceInfo): string {
+  return [
+    info.codec && (CODEC_NAMES[info.codec] || info.codec),
+    info.hdr && `HDR (${info.hdr === 'hlg' ? 'HLG' : 'PQ'})`,
+    info.dolbyVision && info.codec && !CODEC_NAMES[info.codec]?.startsWith('Dolby') && 'Dolby Vision'
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { avcCodecString, hevcCodecString, Mp4Sample, parseSampleTable, typicalFrameDuration } from './mp4Demuxer';
+import { readBoxes } from './mediaProbe';
+import { frameIndexAt } from './webCodecsSource';
+
+/**
+ * 合成 moov 字节：只包含 parseSampleTable 读取的盒，字段按 ISO/IEC 14496-12 布局
+ */
+
+const u8 = (...bytes: number[]) => new Uint8Array(bytes);
+const u16 = (n: number) => u8(n >> 8, n & 0xff);
+const u32 = (n: number) => u8(n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff);
+const i32 = (n: number) => u32(n >>> 0);
+const u64 = (n: number) => new Uint8Array([...u32(Math.floor(n / 2 ** 32)), ...u32(n % 2 ** 32)]);
+const zeros = (n: number) => new Uint8Array(n);
+const ascii = (s: string) => new Uint8Array([...s].map(c => c.charCodeAt(0)));
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+}
+
+const box = (type: string, ...body: Uint8Array[]) => {
+  const payload = concat(...body);
+  return concat(u32(payload.length + 8), ascii(type), payload);
+};
+// FullBox：版本 0、flags 0
+const fullBox = (type: string, ...body: Uint8Array[]) => box(type, u32(0), ...body);
+const table = (type: string, rows: number[][], write: (n: number) => Uint8Array = u32) =>
+  fullBox(type, u32(rows.length), ...rows.flat().map(write));
+
+// avcC：High profile (0x64)、兼容性 0x00、level 4.0 (0x28)
+const AVCC = u8(1, 0x64, 0x00, 0x28, 0xff, 0xe0, 0x00);
+// hvcC：Main profile、兼容性标志第 1/2 位、progressive + frame-only 约束 (0xB0)、level 93
+const HVCC = concat(u8(1, 0x01), u32(0x60000000), u8(0xb0, 0, 0, 0, 0, 0), u8(93), zeros(10));
+
+const MEDIA_TIMESCALE = 3000;
+const MOVIE_TIMESCALE = 1000;
+
+interface FixtureOptions {
+  entry?: 'avc1' | 'hvc1' | 'mp4v';
+  co64?: boolean;
+  ctts?: number[];          // 每个样本的呈现偏移
+  editList?: boolean;       // 0.5 秒空白编辑 + 媒体起点 200
+  stss?: number[];          // 关键帧序号 (从 1 开始)
+}
+
+function buildMoov({ entry = 'avc1', co64 = false, ctts, editList = false, stss }: FixtureOptions = {}): Uint8Array {
+  const config = entry === 'hvc1' ? box('hvcC', HVCC) : entry === 'avc1' ? box('avcC', AVCC) : box('esds', zeros(4));
+  // VisualSampleEntry：24 字节保留字段后为宽高，子盒从第 78 字节开始
+  const sampleEntry = box(entry, zeros(24), u16(1920), u16(1080), zeros(50), config);
+  const stbl = box('stbl',
+    fullBox('stsd', u32(1), sampleEntry),
+    table('stts', [[5, 100], [1, 200]]),
+    ...(ctts ? [table('ctts', ctts.map(offset => [1, offset]), i32)] : []),
+    ...(stss ? [table('stss', stss.map(n => [n]))] : []),
+    fullBox('stsz', u32(0), u32(6), ...[10, 20, 30, 40, 50, 60].map(u32)),
+    // 第 1 块 4 个样本，第 2 块 2 个样本
+    table('stsc', [[1, 4, 1], [2, 2, 1]]),
+    co64
+      ? fullBox('co64', u32(2), u64(2 ** 32 + 16), u64(1000))
+      : table('stco', [[16], [1000]])
+  );
+  const edts = box('edts', table('elst', [[500, 0xffffffff, 0x10000], [5000, 200, 0x10000]]));
+  const trak = box('trak',
+    ...(editList ? [edts] : []),
+    box('mdia',
+      fullBox('mdhd', u32(0), u32(0), u32(MEDIA_TIMESCALE), u32(600), u32(0)),
+      fullBox('hdlr', u32(0), ascii('vide'), zeros(12), u8(0)),
+      box('minf', stbl)
+    )
+  );
+  // 音频轨排在前面，确认按 hdlr 选出视频轨
+  const audio = box('trak', box('mdia', fullBox('hdlr', u32(0), ascii('soun'), zeros(12), u8(0))));
+  return box('moov', fullBox('mvhd', u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(6000)), audio, trak);
+}
+
+const parse = (options?: FixtureOptions) => {
+  const data = buildMoov(options);
+  return parseSampleTable(data, readBoxes(data)[0]);
+};
+
+describe('parseSampleTable', () => {
+  it('stts / stsz / stsc / stco 给出每个样本的位置与时间，缺少 stss 时全部为关键帧', () => {
+    const track = parse()!;
+    expect(track.codec).toBe('avc1.640028');
+    expect(Array.from(track.description)).toEqual(Array.from(AVCC));
+    expect([track.codedWidth, track.codedHeight]).toEqual([1920, 1080]);
+    expect(track.samples.map(s => [s.offset, s.size])).toEqual([
+      [16, 10], [26, 20], [46, 30], [76, 40],
+      [1000, 50], [1050, 60]
+    ]);
+    expect(track.samples.map(s => s.pts * MEDIA_TIMESCALE)).toEqual([0, 100, 200, 300, 400, 500].map(t => expect.closeTo(t, 6)));
+    expect(track.samples.map(s => s.duration * MEDIA_TIMESCALE)).toEqual([100, 100, 100, 100, 100, 200].map(d => expect.closeTo(d, 6)));
+    expect(track.samples.every(s => s.sync)).toBe(true);
+  });
+
+  it('ctts 呈现偏移与编辑列表 (空白编辑 + 媒体起点) 共同决定 pts', () => {
+    // 解码顺序 I P B B P B，ctts 把呈现顺序还原为连续的 200..700
+    const track = parse({ ctts: [200, 400, 100, 100, 300, 100], editList: true, stss: [1, 5] })!;
+    const expected = [200, 500, 300, 400, 700, 600].map(t => (t - 200) / MEDIA_TIMESCALE + 500 / MOVIE_TIMESCALE);
+    track.samples.forEach((s, i) => expect(s.pts, `sample ${i}`).toBeCloseTo(expected[i], 9));
+    expect(track.samples.map(s => s.sync)).toEqual([true, false, false, false, true, false]);
+  });
+
+  it('co64 读取 64 位分块偏移', () => {
+    const track = parse({ co64: true })!;
+    expect(track.samples.map(s => s.offset)).toEqual([2 ** 32 + 16, 2 ** 32 + 26, 2 ** 32 + 46, 2 ** 32 + 76, 1000, 1050]);
+  });
+
+  it('HEVC 由 hvcC 生成编码字符串，其他编码返回 null', () => {
+    expect(parse({ entry: 'hvc1' })!.codec).toBe('hvc1.1.6.L93.B0');
+    expect(parse({ entry: 'mp4v' })).toBeNull();
+  });
+});
+
+describe('编码字符串', () => {
+  it('avcC：profile / 兼容性 / level 各两位十六进制', () => {
+    expect(avcCodecString('avc1', AVCC)).toBe('avc1.640028');
+    expect(avcCodecString('avc3', u8(1, 0x42, 0xc0, 0x1e))).toBe('avc3.42c01e');
+  });
+
+  it('hvcC：兼容性标志倒序，约束字节去掉末尾的 0', () => {
+    expect(hevcCodecString('hvc1', HVCC)).toBe('hvc1.1.6.L93.B0');
+    // Main 10、High tier、profile space A，兼容性只有第 2 位
+    const main10 = concat(u8(1, 0x40 | 0x20 | 0x02), u32(0x20000000), u8(0x90, 0x01, 0, 0, 0, 0), u8(150), zeros(10));
+    expect(hevcCodecString('hev1', main10)).toBe('hev1.A2.4.H150.90.1');
+  });
+});
+
+describe('typicalFrameDuration', () => {
+  it('取样本时长中位数，忽略个别长帧', () => {
+    expect(typicalFrameDuration(parse()!)).toBeCloseTo(100 / MEDIA_TIMESCALE, 12);
+  });
+
+  it('没有有效样本时为 undefined', () => {
+    expect(typicalFrameDuration({ ...parse()!, samples: [] })).toBeUndefined();
+  });
+});
+
+describe('frameIndexAt', () => {
+  const { samples } = parse({ ctts: [200, 400, 100, 100, 300, 100], editList: true })!;
+  const order = samples.map((_, i) => i).sort((a, b) => samples[a].pts - samples[b].pts);
+
+  // 寻帧方式的参考模型：video 元素在时间 t 显示呈现区间 [pts, 下一帧 pts) 包含 t 的帧
+  const seekLanding = (list: Mp4Sample[], time: number) => {
+    const sorted = [...list].sort((a, b) => a.pts - b.pts);
+    const hit = sorted.filter(s => s.pts <= time + 1e-6).pop() ?? sorted[0];
+    return hit.pts;
+  };
+
+  it('与寻帧落点一致，且偏差不超过一帧', () => {
+    const frame = 100 / MEDIA_TIMESCALE;
+    // 覆盖帧边界、边界附近的浮点误差与区间中点
+    const times = Array.from({ length: 61 }, (_, i) => 0.5 + i * frame / 10)
+      .concat(Array.from({ length: 6 }, (_, i) => 0.5 + i * (1 / 30)));
+    times.forEach(time => {
+      const pts = samples[frameIndexAt(samples, order, time)].pts;
+      expect(pts, `t=${time}`).toBeCloseTo(seekLanding(samples, time), 9);
+      expect(Math.abs(pts - time), `t=${time}`).toBeLessThan(frame + 1e-9);
+    });
+  });
+
+  it('早于第一帧的时间落在第一帧', () => {
+    expect(samples[frameIndexAt(samples, order, 0)].pts).toBeCloseTo(0.5, 9);
+  });
+});
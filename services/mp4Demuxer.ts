@@ -0,0 +1,248 @@
+
+import { VideoSourceInfo } from '../types';
+import { Box, findBox, parseVideoTrack, readBoxes, readMoov } from './mediaProbe';
+
+/**
+ * MP4 / MOV 视频轨解复用：由 moov 样本表计算每一帧的文件位置、呈现时间与关键帧标记，
+ * 供 WebCodecs VideoDecoder 顺序解码
+ */
+
+export interface Mp4Sample {
+  offset: number;  // 文件内字节偏移
+  size: number;
+  pts: number;     // 呈现时间 (秒，已应用编辑列表)
+  duration: number;
+  sync: boolean;   // 关键帧
+}
+
+export interface Mp4VideoTrack {
+  codec: string;            // WebCodecs 编码字符串，如 avc1.640028
+  description: Uint8Array;  // avcC / hvcC 内容
+  codedWidth: number;
+  codedHeight: number;
+  samples: Mp4Sample[];     // 解码顺序
+}
+
+export interface ContainerInfo {
+  source: VideoSourceInfo | null;
+  track: Mp4VideoTrack | null; // 编码不在快速路径支持范围内时为 null
+}
+
+const hex2 = (n: number) => n.toString(16).padStart(2, '0');
+
+function readUint(view: DataView, offset: number, size: 4 | 8): number {
+  return size === 4 ? view.getUint32(offset) : view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+}
+
+// mvhd / mdhd 的时间刻度，版本 1 的时间字段为 64 位
+const readTimescale = (data: Uint8Array, view: DataView, box: Box) =>
+  view.getUint32(box.body + (data[box.body] === 1 ? 20 : 12));
+
+/**
+ * 由 avcC 生成编码字符串 (纯函数)：profile / 兼容性 / level 各一字节
+ */
+export function avcCodecString(prefix: string, avcC: Uint8Array): string {
+  return `${prefix}.${hex2(avcC[1])}${hex2(avcC[2])}${hex2(avcC[3])}`;
+}
+
+/**
+ * 由 hvcC 生成编码字符串 (纯函数)，格式见 ISO/IEC 14496-15 附录 E
+ */
+export function hevcCodecString(prefix: string, hvcC: Uint8Array): string {
+  const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+  const tier = (hvcC[1] >> 5) & 1 ? 'H' : 'L';
+  const profile = hvcC[1] & 0x1f;
+  const view = new DataView(hvcC.buffer, hvcC.byteOffset, hvcC.byteLength);
+  // 兼容性标志按位倒序后以十六进制表示
+  let compat = view.getUint32(2);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | (compat & 1);
+    compat >>>= 1;
+  }
+  const constraints = Array.from(hvcC.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+  return [
+    prefix,
+    `${profileSpace}${profile}`,
+    (reversed >>> 0).toString(16).toUpperCase(),
+    `${tier}${hvcC[12]}`,
+    ...constraints.map(b => b.toString(16).toUpperCase())
+  ].join('.');
+}
+
+/**
+ * 编辑列表 (elst)：返回开头空白编辑的时长 (秒) 与媒体起点 (媒体时间刻度)
+ */
+function readEditList(data: Uint8Array, view: DataView, trak: Box, movieTimescale: number) {
+  const elst = findBox(data, trak, ['edts', 'elst']);
+  let emptyOffset = 0;
+  let mediaStart = 0;
+  if (!elst) return { emptyOffset, mediaStart };
+
+  const wide = data[elst.body] === 1;
+  const count = view.getUint32(elst.body + 4);
+  let offset = elst.body + 8;
+  for (let i = 0; i < count; i++) {
+    const segmentDuration = readUint(view, offset, wide ? 8 : 4);
+    const mediaTime = wide ? Number(view.getBigInt64(offset + 8)) : view.getInt32(offset + 4);
+    offset += wide ? 20 : 12;
+    if (mediaTime === -1) {
+      emptyOffset += segmentDuration / movieTimescale;
+    } else {
+      mediaStart = mediaTime;
+      break;
+    }
+  }
+  return { emptyOffset, mediaStart };
+}
+
+/**
+ * 解析视频轨样本表 (纯函数)；仅支持 H.264 / HEVC，其余编码返回 null
+ */
+export function parseSampleTable(data: Uint8Array, moov: Box): Mp4VideoTrack | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const trak = readBoxes(data, moov.body, moov.end)
+    .filter(b => b.type === 'trak')
+    .find(t => {
+      const hdlr = findBox(data, t, ['mdia', 'hdlr']);
+      return hdlr && String.fromCharCode(...data.subarray(hdlr.body + 8, hdlr.body + 12)) === 'vide';
+    });
+  const mvhd = findBox(data, moov, ['mvhd']);
+  const mdhd = trak && findBox(data, trak, ['mdia', 'mdhd']);
+  const stbl = trak && findBox(data, trak, ['mdia', 'minf', 'stbl']);
+  if (!trak || !mvhd || !mdhd || !stbl) return null;
+
+  const child = (type: string) => findBox(data, stbl, [type]);
+  const stsd = child('stsd');
+  const entry = stsd && readBoxes(data, stsd.body + 8, stsd.end)[0];
+  if (!entry) return null;
+
+  // VisualSampleEntry：编码宽高位于第 24 字节，子盒从第 78 字节开始
+  const codedWidth = view.getUint16(entry.body + 24);
+  const codedHeight = view.getUint16(entry.body + 26);
+  const configs = readBoxes(data, entry.body + 78, entry.end);
+  let codec: string;
+  let config: Box | undefined;
+  if (entry.type === 'avc1' || entry.type === 'avc3') {
+    config = configs.find(b => b.type === 'avcC');
+    if (!config) return null;
+    codec = avcCodecString(entry.type, data.subarray(config.body, config.end));
+  } else if (entry.type === 'hvc1' || entry.type === 'hev1') {
+    config = configs.find(b => b.type === 'hvcC');
+    if (!config) return null;
+    codec = hevcCodecString(entry.type, data.subarray(config.body, config.end));
+  } else {
+    return null;
+  }
+
+  const stts = child('stts');
+  const stsz = child('stsz');
+  const stsc = child('stsc');
+  const stco = child('stco') || child('co64');
+  if (!stts || !stsz || !stsc || !stco) return null;
+
+  // 样本大小
+  const uniformSize = view.getUint32(stsz.body + 4);
+  const sampleCount = view.getUint32(stsz.body + 8);
+  const sizes = Array.from({ length: sampleCount }, (_, i) =>
+    uniformSize || view.getUint32(stsz.body + 12 + i * 4));
+
+  // 解码时间 (stts) 与呈现偏移 (ctts，版本 0 也按有符号读取)
+  const timescale = readTimescale(data, view, mdhd);
+  const dts: number[] = [];
+  const durations: number[] = [];
+  let time = 0;
+  for (let i = 0, n = view.getUint32(stts.body + 4); i < n; i++) {
+    const count = view.getUint32(stts.body + 8 + i * 8);
+    const delta = view.getUint32(stts.body + 12 + i * 8);
+    for (let k = 0; k < count && dts.length < sampleCount; k++) {
+      dts.push(time);
+      durations.push(delta);
+      time += delta;
+    }
+  }
+  const offsets = new Array<number>(sampleCount).fill(0);
+  const ctts = child('ctts');
+  if (ctts) {
+    let index = 0;
+    for (let i = 0, n = view.getUint32(ctts.body + 4); i < n; i++) {
+      const count = view.getUint32(ctts.body + 8 + i * 8);
+      const offset = view.getInt32(ctts.body + 12 + i * 8);
+      for (let k = 0; k < count && index < sampleCount; k++) offsets[index++] = offset;
+    }
+  }
+
+  // 关键帧 (stss 缺失表示全部为关键帧)
+  const stss = child('stss');
+  const sync = new Array<boolean>(sampleCount).fill(!stss);
+  if (stss) {
+    for (let i = 0, n = view.getUint32(stss.body + 4); i < n; i++) {
+      const index = view.getUint32(stss.body + 8 + i * 4) - 1;
+      if (index < sampleCount) sync[index] = true;
+    }
+  }
+
+  // 文件位置：分块偏移 (stco / co64) + 块内累计大小，块内样本数由 stsc 给出
+  const wide = stco.type === 'co64';
+  const chunkCount = view.getUint32(stco.body + 4);
+  const chunkOffset = (chunk: number) => readUint(view, stco.body + 8 + chunk * (wide ? 8 : 4), wide ? 8 : 4);
+  const runs = Array.from({ length: view.getUint32(stsc.body + 4) }, (_, i) => ({
+    firstChunk: view.getUint32(stsc.body + 8 + i * 12) - 1,
+    perChunk: view.getUint32(stsc.body + 12 + i * 12)
+  }));
+  const positions: number[] = [];
+  runs.forEach((run, r) => {
+    const lastChunk = r + 1 < runs.length ? runs[r + 1].firstChunk : chunkCount;
+    for (let chunk = run.firstChunk; chunk < lastChunk; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let k = 0; k < run.perChunk && positions.length < sampleCount; k++) {
+        positions.push(offset);
+        offset += sizes[positions.length - 1];
+      }
+    }
+  });
+  if (positions.length < sampleCount || dts.length < sampleCount) return null;
+
+  const { emptyOffset, mediaStart } = readEditList(data, view, trak, readTimescale(data, view, mvhd));
+  return {
+    codec,
+    description: data.slice(config.body, config.end),
+    codedWidth,
+    codedHeight,
+    samples: sizes.map((size, i) => ({
+      offset: positions[i],
+      size,
+      pts: (dts[i] + offsets[i] - mediaStart) / timescale + emptyOffset,
+      duration: durations[i] / timescale,
+      sync: sync[i]
+    }))
+  };
+}
+
+/**
+ * 典型单帧时长 (纯函数)：取样本时长的中位数，不受可变帧率中个别长帧的影响；无有效样本时返回 undefined
+ */
+export function typicalFrameDuration(track: Mp4VideoTrack): number | undefined {
+  const durations = track.samples.map(s => s.duration).filter(d => d > 0).sort((a, b) => a - b);
+  return durations.length > 0 ? durations[Math.floor(durations.length / 2)] : undefined;
+}
+
+/**
+ * 读取容器：一次读取 moov，同时得到探测信息与样本表；非 MP4 / MOV 或结构异常时均为 null
+ */
+export async function readContainer(file: Blob): Promise<ContainerInfo> {
+  const found = await readMoov(file).catch(() => null);
+  if (!found) return { source: null, track: null };
+  const attempt = <T>(parse: () => T | null): T | null => {
+    try {
+      return parse();
+    } catch {
+      return null;
+    }
+  };
+  return {
+    source: attempt(() => parseVideoTrack(found.data, found.moov)),
+    track: attempt(() => parseSampleTable(found.data, found.moov))
+  };
+}
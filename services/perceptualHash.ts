@@ -0,0 +1,56 @@
+
+import { PixelBuffer } from './frameScorers';
+
+/**
+ * 差值哈希 dHash (纯函数)：缩放到 9x8 灰度后比较相邻像素，得到 64 位指纹 (16 位十六进制)
+ */
+export function computeDHash({ data, width, height }: PixelBuffer): string {
+  const cols = 9;
+  const rows = 8;
+  const cells = new Float32Array(cols * rows);
+
+  // 区域平均缩放，比最近邻采样更稳定
+  for (let cy = 0; cy < rows; cy++) {
+    const y0 = Math.floor((cy * height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * height) / rows));
+    for (let cx = 0; cx < cols; cx++) {
+      const x0 = Math.floor((cx * width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * width) / cols));
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < y1 && y < height; y++) {
+        for (let x = x0; x < x1 && x < width; x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+          count++;
+        }
+      }
+      cells[cy * cols + cx] = count === 0 ? 0 : sum / count;
+    }
+  }
+
+  let hash = '';
+  for (let cy = 0; cy < rows; cy++) {
+    let byte = 0;
+    for (let cx = 0; cx < cols - 1; cx++) {
+      byte = (byte << 1) | (cells[cy * cols + cx] > cells[cy * cols + cx + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+/**
+ * 两个等长十六进制哈希之间的汉明距离 (0-64)
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BatchScheduler, estimateQueue, formatDuration, MAX_CONCURRENCY, recommendConcurrency } from './processingScheduler';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('recommendConcurrency', () => {
+  it('iOS 固定为 1', () => {
+    expect(recommendConcurrency({ cores: 16, memory: 8, ios: true })).toBe(1);
+  });
+
+  it('取核心与内存约束的较小值，至少为 1', () => {
+    expect(recommendConcurrency({ cores: 16, memory: 8, ios: false })).toBe(4);
+    expect(recommendConcurrency({ cores: 16, memory: 4, ios: false })).toBe(2);
+    expect(recommendConcurrency({ cores: 8, memory: 8, ios: false })).toBe(2);
+    expect(recommendConcurrency({ cores: 2, memory: 1, ios: false })).toBe(1);
+  });
+
+  it('未知内存时只按核心数，且不超过上限', () => {
+    expect(recommendConcurrency({ cores: 12, ios: false })).toBe(3);
+    expect(recommendConcurrency({ cores: 128, ios: false })).toBe(MAX_CONCURRENCY);
+  });
+});
+
+describe('estimateQueue', () => {
+  it('尚无进度时没有估算', () => {
+    expect(estimateQueue(0, 0, 5)).toEqual({ throughput: 0 });
+    expect(estimateQueue(30, 0, 5)).toEqual({ throughput: 0 });
+  });
+
+  it('运行不足 5 秒时只给出吞吐', () => {
+    expect(estimateQueue(4, 1, 3)).toEqual({ throughput: 15, eta: undefined });
+  });
+
+  it('剩余时间 = 剩余工作量 / 吞吐', () => {
+    expect(estimateQueue(60, 2, 3)).toEqual({ throughput: 2, eta: 90 });
+  });
+});
+
+describe('formatDuration', () => {
+  it('按秒 / 分 / 小时分级显示', () => {
+    expect(formatDuration(-3)).toBe('0 秒');
+    expect(formatDuration(42.4)).toBe('42 秒');
+    expect(formatDuration(125)).toBe('2 分 5 秒');
+    expect(formatDuration(3725)).toBe('1 小时 2 分');
+  });
+});
+
+/**
+ * 假任务：每个任务由测试手动完成，记录开始顺序与同时运行数
+ */
+function fakeQueue(items: string[]) {
+  const queue = [...items];
+  const started: string[] = [];
+  const running = new Map<string, () => void>();
+  let maxRunning = 0;
+  const run = (item: string) => new Promise<void>(resolve => {
+    started.push(item);
+    running.set(item, () => { running.delete(item); resolve(); });
+    maxRunning = Math.max(maxRunning, running.size);
+  });
+  const finish = async (...names: string[]) => {
+    names.forEach(name => running.get(name)!());
+    // 等待通道领取下一个任务
+    await new Promise(r => setTimeout(r, 0));
+  };
+  return {
+    pick: () => queue.shift(),
+    run,
+    finish,
+    started,
+    running,
+    get maxRunning() { return maxRunning; },
+    queue
+  };
+}
+
+describe('BatchScheduler', () => {
+  it('同时运行的任务数不超过并行上限，按队列顺序领取', async () => {
+    const q = fakeQueue(['a', 'b', 'c', 'd', 'e']);
+    const scheduler = new BatchScheduler(q.pick, q.run, 2);
+    const done = scheduler.start();
+
+    expect(q.started).toEqual(['a', 'b']);
+    await q.finish('b');
+    expect(q.started).toEqual(['a', 'b', 'c']);
+    await q.finish('a', 'c');
+    await q.finish('d', 'e');
+    await done;
+
+    expect(q.started).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(q.maxRunning).toBe(2);
+    expect(scheduler.isRunning).toBe(false);
+  });
+
+  it('暂停后不再领取排队的任务，继续后按原顺序处理剩余任务', async () => {
+    const q = fakeQueue(['a', 'b', 'c', 'd']);
+    const scheduler = new BatchScheduler(q.pick, q.run, 2);
+    const first = scheduler.start();
+
+    scheduler.pause();
+    await q.finish('a', 'b');
+    await first;
+    expect(q.started).toEqual(['a', 'b']);
+    expect(q.queue).toEqual(['c', 'd']);
+
+    const second = scheduler.start();
+    expect(q.started).toEqual(['a', 'b', 'c', 'd']);
+    await q.finish('c', 'd');
+    await second;
+  });
+
+  it('调低并行数时多余通道在当前任务完成后退出，调高时立即补足', async () => {
+    const q = fakeQueue(['a', 'b', 'c', 'd', 'e', 'f']);
+    const scheduler = new BatchScheduler(q.pick, q.run, 3);
+    const done = scheduler.start();
+
+    scheduler.setConcurrency(1);
+    await q.finish('a', 'b');
+    expect([...q.running.keys()]).toEqual(['c']);
+    await q.finish('c');
+    expect([...q.running.keys()]).toEqual(['d']);
+
+    scheduler.setConcurrency(3);
+    expect([...q.running.keys()]).toEqual(['d', 'e', 'f']);
+    await q.finish('d', 'e', 'f');
+    await done;
+  });
+
+  it('任务抛出错误时通道继续领取下一个任务', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const queue = ['bad', 'ok'];
+    const ran: string[] = [];
+    const scheduler = new BatchScheduler(() => queue.shift(), async (item: string) => {
+      ran.push(item);
+      if (item === 'bad') throw new Error('boom');
+    }, 1);
+
+    await scheduler.start();
+
+    expect(ran).toEqual(['bad', 'ok']);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,136 @@
+
+/**
+ * 批次并行调度：按设备核心数与内存决定同时处理的视频数量，并估算队列剩余时间
+ */
+
+export const MAX_CONCURRENCY = 8;
+
+export interface DeviceProfile {
+  cores: number;
+  memory?: number; // navigator.deviceMemory (GB，浏览器上限为 8)
+  ios: boolean;
+}
+
+// 每个并行任务占用的核心与内存：寻帧解码 + 高清截图画布 (4K 约 33MB) + 评分 Worker
+const CORES_PER_JOB = 4;
+const MEMORY_PER_JOB = 2;
+
+export function detectDevice(): DeviceProfile {
+  const nav = navigator as Navigator & { deviceMemory?: number };
+  // iPadOS 13+ 的 UA 与 macOS 相同，以触控点区分
+  const ios = /iPad|iPhone|iPod/.test(nav.userAgent) || (nav.platform === 'MacIntel' && nav.maxTouchPoints > 1);
+  return { cores: nav.hardwareConcurrency || 2, memory: nav.deviceMemory, ios };
+}
+
+/**
+ * 推荐并行数 (纯函数)：iOS 的视频解码器与内存限制严格，固定为 1；其他设备取核心与内存约束的较小值
+ */
+export function recommendConcurrency({ cores, memory, ios }: DeviceProfile): number {
+  if (ios) return 1;
+  const byCores = Math.floor(cores / CORES_PER_JOB);
+  const byMemory = memory === undefined ? byCores : Math.floor(memory / MEMORY_PER_JOB);
+  return Math.max(1, Math.min(MAX_CONCURRENCY, byCores, byMemory));
+}
+
+export interface QueueEstimate {
+  throughput: number; // 每分钟完成的视频数
+  eta?: number;       // 剩余秒数，样本不足时为空
+}
+
+// 至少运行该时长 (秒) 且已有进度后才给出估算，避免开头几秒的剧烈波动
+const MIN_ELAPSED_FOR_ESTIMATE = 5;
+
+/**
+ * 队列估算 (纯函数)：以本轮已完成的工作量 (含进行中批次的进度) 除以耗时得到吞吐，
+ * 并行处理的效果自然体现在吞吐中
+ */
+export function estimateQueue(elapsedSeconds: number, doneWork: number, remainingWork: number): QueueEstimate {
+  if (elapsedSeconds <= 0 || doneWork <= 0) return { throughput: 0 };
+  const perSecond = doneWork / elapsedSeconds;
+  return {
+    throughput: perSecond * 60,
+    eta: elapsedSeconds >= MIN_ELAPSED_FOR_ESTIMATE ? remainingWork / perSecond : undefined
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分`;
+  return minutes > 0 ? `${minutes} 分 ${total % 60} 秒` : `${total} 秒`;
+}
+
+/**
+ * 并行执行队列：每条通道依次领取下一个任务，领取为同步操作，多条通道不会拿到同一任务；
+ * 调低并行数时多余的通道在当前任务完成后退出
+ */
+export class BatchScheduler<T> {
+  private lanes = 0;
+  private paused = false;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(
+    private pick: () => T | undefined,
+    private run: (item: T) => Promise<void>,
+    private limit: number
+  ) {}
+
+  get isRunning() {
+    return this.lanes > 0;
+  }
+
+  /**
+   * 启动调度，所有通道结束 (队列为空或已暂停) 时返回
+   */
+  start(): Promise<void> {
+    this.paused = false;
+    const idle = new Promise<void>(resolve => this.idleWaiters.push(resolve));
+    this.fill();
+    return idle;
+  }
+
+  /**
+   * 停止领取新任务；进行中的任务由调用方负责中止
+   */
+  pause() {
+    this.paused = true;
+  }
+
+  setConcurrency(limit: number) {
+    this.limit = Math.max(1, limit);
+    if (this.lanes > 0 && !this.paused) this.fill();
+  }
+
+  private fill() {
+    // 先确定数量：队列为空时通道会同步退出，不能以当前通道数作为循环条件
+    const count = this.limit - this.lanes;
+    for (let i = 0; i < count; i++) {
+      this.lanes++;
+      this.lane();
+    }
+  }
+
+  private async lane() {
+    try {
+      while (!this.paused && this.lanes <= this.limit) {
+        const item = this.pick();
+        if (item === undefined) break;
+        // 单个任务抛出的错误不结束通道，也不成为未处理的 Promise 拒绝
+        try {
+          await this.run(item);
+        } catch (err) {
+          console.error('Batch task failed', err);
+        }
+      }
+    } finally {
+      this.lanes--;
+      if (this.lanes === 0) this.notifyIdle();
+    }
+  }
+
+  private notifyIdle() {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,110 @@
+
+import { AppConfig, CropOverride, ProductRegion } from '../types';
+import { PixelBuffer } from './frameScorers';
+import { estimateBackground } from './imageProcessor';
+
+/**
+ * 方形主图：检测商品区域，居中裁剪为 squareSize 的正方形并保留 padding 边距
+ */
+
+export interface SquareCrop {
+  sx: number;   // 源图裁剪起点 (可为负，超出部分以背景色填充)
+  sy: number;
+  side: number; // 源图裁剪边长
+}
+
+/**
+ * 检测与背景色差异明显的区域 (纯函数)，返回归一化的包围盒；稀疏的离群像素行/列会被忽略
+ */
+export function detectProductRegion(pixels: PixelBuffer, threshold = 40): ProductRegion {
+  const { data, width, height } = pixels;
+  const [br, bg, bb] = estimateBackground(pixels);
+  const rowCounts = new Uint32Array(height);
+  const colCounts = new Uint32Array(width);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const dist = Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb);
+      if (dist > threshold) {
+        rowCounts[y]++;
+        colCounts[x]++;
+      }
+    }
+  }
+
+  const minRow = Math.max(1, Math.round(width * 0.01));
+  const minCol = Math.max(1, Math.round(height * 0.01));
+  let top = -1, bottom = -1, left = -1, right = -1;
+  for (let y = 0; y < height; y++) if (rowCounts[y] >= minRow) { if (top < 0) top = y; bottom = y; }
+  for (let x = 0; x < width; x++) if (colCounts[x] >= minCol) { if (left < 0) left = x; right = x; }
+
+  if (top < 0 || left < 0) return { x: 0, y: 0, width: 1, height: 1 };
+  return {
+    x: left / width,
+    y: top / height,
+    width: (right - left + 1) / width,
+    height: (bottom - top + 1) / height
+  };
+}
+
+/**
+ * 计算源图上的方形裁剪区域 (纯函数)：商品占据去除 padding 后的内框，手动调整以自动结果为基准缩放/平移
+ */
+export function computeSquareCrop(
+  imageWidth: number,
+  imageHeight: number,
+  region: ProductRegion,
+  config: Pick<AppConfig, 'squareSize' | 'padding'>,
+  override?: CropOverride
+): SquareCrop {
+  const rw = region.width * imageWidth;
+  const rh = region.height * imageHeight;
+  const inner = Math.max(1, config.squareSize - 2 * config.padding);
+  const autoSide = Math.max(rw, rh, 1) * (config.squareSize / inner);
+
+  const cx = override ? override.cx * imageWidth : (region.x + region.width / 2) * imageWidth;
+  const cy = override ? override.cy * imageHeight : (region.y + region.height / 2) * imageHeight;
+  const side = override ? autoSide / Math.max(0.1, override.zoom) : autoSide;
+
+  return { sx: cx - side / 2, sy: cy - side / 2, side };
+}
+
+/**
+ * 渲染方形主图，返回输出画布与检测到的商品区域
+ */
+export function renderSquare(
+  img: HTMLCanvasElement,
+  config: Pick<AppConfig, 'squareSize' | 'padding'>,
+  override?: CropOverride,
+  knownRegion?: ProductRegion
+): { canvas: HTMLCanvasElement; region: ProductRegion } {
+
+  // 在缩略图上检测商品区域与背景色
+  const probe = document.createElement('canvas');
+  const probeScale = Math.min(1, 320 / Math.max(img.width, img.height));
+  probe.width = Math.max(1, Math.round(img.width * probeScale));
+  probe.height = Math.max(1, Math.round(img.height * probeScale));
+  const probeCtx = probe.getContext('2d', { willReadFrequently: true });
+  if (!probeCtx) throw new Error('Canvas context unavailable');
+  probeCtx.drawImage(img, 0, 0, probe.width, probe.height);
+  const pixels = probeCtx.getImageData(0, 0, probe.width, probe.height);
+  const region = knownRegion || detectProductRegion(pixels);
+  const [r, g, b] = estimateBackground(pixels);
+
+  const { sx, sy, side } = computeSquareCrop(img.width, img.height, region, config, override);
+  const canvas = document.createElement('canvas');
+  canvas.width = config.squareSize;
+  canvas.height = config.squareSize;
+  const ctx = canvas.getContext('2d', { alpha: false });
+  if (!ctx) throw new Error('Canvas context unavailable');
+
+  // 裁剪框超出原图的部分以背景色填充
+  ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const scale = config.squareSize / side;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, -sx * scale, -sy * scale, img.width * scale, img.height * scale);
+
+  return { canvas, region };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessingStatus, ProductBatch } from '../types';
+import { buildMapping, matchMapping, parseCsv } from './productMapping';
+import { DEFAULT_EXTRACTION_OPTIONS } from './videoProcessor';
+
+const batch = (id: string, fileName: string): ProductBatch => ({
+  id,
+  fileName,
+  productKey: fileName,
+  status: ProcessingStatus.IDLE,
+  progress: 0,
+  frames: [],
+  extraction: DEFAULT_EXTRACTION_OPTIONS
+});
+
+describe('buildMapping', () => {
+  it('行号与表格一致，空行同样计数', () => {
+    const csv = '\n文件名,货号\nclip01.mov,R-001\n\n\nclip02.mov,R-002\n';
+    const { rows } = buildMapping(parseCsv(csv));
+    expect(rows.map(r => [r.line, r.file, r.productKey])).toEqual([
+      [3, 'clip01.mov', 'R-001'],
+      [6, 'clip02.mov', 'R-002']
+    ]);
+  });
+
+  it('字段内换行不拆分行', () => {
+    const { rows } = buildMapping(parseCsv('file,title\nclip01.mov,"两行\n标题"\nclip02.mov,单行'));
+    expect(rows.map(r => [r.line, r.attributes.title])).toEqual([[2, '两行\n标题'], [3, '单行']]);
+  });
+});
+
+describe('matchMapping', () => {
+  it('归一化后重名的行报告为冲突，不套用任何一行', () => {
+    const mapping = buildMapping(parseCsv('file,sku\nclip01.mov,A\nCLIP01.MP4,B\nclip02.mov,C\nclip03.mov,D'));
+    const result = matchMapping([batch('b1', 'clip01.mov'), batch('b2', 'clip02.mov')], mapping);
+
+    expect(result.conflicts).toEqual([{ file: 'clip01.mov', rows: [mapping.rows[0], mapping.rows[1]] }]);
+    expect(result.matched).toEqual([{ batchId: 'b2', row: mapping.rows[2] }]);
+    expect(result.unmatchedBatches.map(b => b.id)).toEqual(['b1']);
+    expect(result.unmatchedRows.map(r => r.line)).toEqual([5]);
+  });
+});
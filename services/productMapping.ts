@@ -0,0 +1,244 @@
+
+import JSZip from 'jszip';
+import { ProductAttributes, ProductBatch } from '../types';
+
+/**
+ * 商品表导入：按视频文件名把 SKU、标题、材质、颜色等属性映射到批次
+ */
+
+export interface MappingRow {
+  line: number;       // 表格中的行号 (与表格软件一致，空行同样计数)
+  file: string;       // 视频文件名
+  productKey?: string;
+  attributes: ProductAttributes;
+}
+
+export interface ProductMapping {
+  rows: MappingRow[];
+  columns: string[];  // 属性列 (已归一化的键)
+}
+
+export interface MappingConflict {
+  file: string;       // 归一化后相同的文件名 (取第一行的写法)
+  rows: MappingRow[];
+}
+
+export interface MappingResult {
+  matched: { batchId: string; row: MappingRow }[];
+  unmatchedRows: MappingRow[];      // 表中有、队列中找不到对应视频的行
+  unmatchedBatches: ProductBatch[]; // 队列中没有对应行的视频 (含文件名冲突的视频)
+  conflicts: MappingConflict[];     // 多行对应同一文件名，无法确定使用哪一行，均不套用
+}
+
+// 常见表头别名 → 标准属性键；其他列以原表头作为属性键
+const COLUMN_ALIASES: Record<string, string[]> = {
+  file: ['file', 'filename', 'file name', 'clip', 'video', '文件', '文件名', '视频', '视频文件', '视频文件名'],
+  sku: ['sku', 'productkey', 'product key', '货号', '款号', '商品编码', '编码'],
+  title: ['title', 'name', 'product title', '标题', '名称', '商品名称', '品名'],
+  material: ['material', '材质', '材料'],
+  color: ['color', 'colour', '颜色', '色号']
+};
+
+export const ATTRIBUTE_LABELS: Record<string, string> = {
+  sku: 'SKU',
+  title: '标题',
+  material: '材质',
+  color: '颜色'
+};
+
+const normalizeHeader = (header: string): string => {
+  const key = header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+  const alias = Object.keys(COLUMN_ALIASES).find(k => COLUMN_ALIASES[k].includes(key));
+  return alias || header.trim();
+};
+
+/**
+ * 文件名匹配键 (纯函数)：去掉路径与扩展名，忽略大小写
+ */
+export function normalizeClipName(name: string): string {
+  const base = name.trim().split(/[\\/]/).pop() || '';
+  return base.replace(/\.[^.]+$/, '').toLowerCase();
+}
+
+/**
+ * 解析 CSV (纯函数)：支持引号转义、字段内换行、BOM，自动识别逗号/分号/制表符分隔；
+ * 空行保留为空数组元素，使下标与表格行号对应
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// "AB12" → 列序号 27 (从 0 开始)
+const columnIndex = (ref: string) => {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] || 'A';
+  return [...letters].reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * 读取 XLSX 第一个工作表 (基于 JSZip 与 DOMParser，无需额外依赖)；
+ * 工作表不存储空行，按 <row r> 行号放回原位置，空行为空数组
+ */
+export async function parseXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const file = zip.file(path);
+    return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+  };
+
+  const shared = await readXml('xl/sharedStrings.xml');
+  const strings = shared
+    ? Array.from(shared.getElementsByTagName('si')).map(si =>
+        Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''))
+    : [];
+
+  // 通过 workbook 关系找到第一个工作表，兜底为 sheet1.xml
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readXml('xl/workbook.xml');
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const target = relId && rels
+    ? Array.from(rels.getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId)?.getAttribute('Target')
+    : null;
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new Error('工作表不存在');
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowEl => {
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach((c, i) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : i;
+      const type = c.getAttribute('t');
+      const value = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text = value;
+      if (type === 's') text = strings[parseInt(value)] ?? '';
+      else if (type === 'inlineStr') text = Array.from(c.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      row[col] = text;
+    });
+    const line = parseInt(rowEl.getAttribute('r') || '');
+    rows[line > 0 ? line - 1 : rows.length] = Array.from(row, cell => cell ?? '');
+  });
+  return Array.from(rows, row => row ?? []);
+}
+
+/**
+ * 按扩展名选择解析器
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error('暂不支持旧版 .xls，请另存为 .xlsx 或 .csv');
+  return parseCsv(await file.text());
+}
+
+/**
+ * 由表格行生成映射 (纯函数)：第一个非空行为表头，必须包含文件名列；
+ * table 的下标即行号减 1
+ */
+export function buildMapping(table: string[][]): ProductMapping {
+  const headerIndex = table.findIndex(r => r.some(c => c.trim() !== ''));
+  if (headerIndex < 0) throw new Error('表格为空');
+  const header = table[headerIndex];
+  const keys = header.map(normalizeHeader);
+  const fileCol = keys.indexOf('file');
+  if (fileCol < 0) throw new Error('未找到文件名列 (如 "文件名" / "file")');
+
+  const columns = keys.filter((k, i) => i !== fileCol && k !== '');
+  const rows = table
+    .map((cells, i): MappingRow => {
+      const attributes: ProductAttributes = {};
+      keys.forEach((key, col) => {
+        const value = (cells[col] || '').trim();
+        if (col !== fileCol && key && value) attributes[key] = value;
+      });
+      return { line: i + 1, file: (cells[fileCol] || '').trim(), productKey: attributes.sku, attributes };
+    })
+    .filter(row => row.line > headerIndex + 1 && row.file !== '');
+  return { rows, columns };
+}
+
+/**
+ * 将映射与批次按文件名匹配 (纯函数)；归一化后重名的行作为冲突报告，不参与匹配
+ */
+export function matchMapping(batches: ProductBatch[], mapping: ProductMapping): MappingResult {
+  const groups = new Map<string, MappingRow[]>();
+  mapping.rows.forEach(row => {
+    const key = normalizeClipName(row.file);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  const byName = new Map<string, MappingRow>();
+  const conflicts: MappingConflict[] = [];
+  groups.forEach((rows, key) => {
+    if (rows.length === 1) byName.set(key, rows[0]);
+    else conflicts.push({ file: rows[0].file, rows });
+  });
+
+  const matched: MappingResult['matched'] = [];
+  const usedRows = new Set<MappingRow>();
+  const unmatchedBatches: ProductBatch[] = [];
+  batches.forEach(batch => {
+    const row = byName.get(normalizeClipName(batch.fileName));
+    if (row) {
+      matched.push({ batchId: batch.id, row });
+      usedRows.add(row);
+    } else {
+      unmatchedBatches.push(batch);
+    }
+  });
+
+  const conflictRows = new Set(conflicts.flatMap(c => c.rows));
+  return {
+    matched,
+    unmatchedRows: mapping.rows.filter(r => !usedRows.has(r) && !conflictRows.has(r)),
+    unmatchedBatches,
+    conflicts
+  };
+}
+
+/**
+ * 应用到批次：有 SKU 时替换 productKey，属性合并到已有属性上
+ */
+export function applyMappingRow(batch: ProductBatch, row: MappingRow): ProductBatch {
+  return {
+    ...batch,
+    productKey: row.productKey || batch.productKey,
+    attributes: { ...batch.attributes, ...row.attributes }
+  };
+}
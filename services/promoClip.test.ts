@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ScoreSample } from '../types';
+import { findBestRanges, planClipTimes, playbackOrder } from './promoClip';
+
+// 评分曲线：每 0.25 秒一个样本，峰值处 100，距离峰值每秒下降 40
+const peakCurve = (duration: number, ...peaks: number[]): ScoreSample[] =>
+  Array.from({ length: Math.round(duration * 4) + 1 }, (_, i) => {
+    const time = i / 4;
+    return { time, score: Math.max(0, ...peaks.map(p => 100 - 40 * Math.abs(time - p))) };
+  });
+
+const length = (r: { start: number; end: number }) => r.end - r.start;
+
+describe('findBestRanges', () => {
+  it('视频不长于目标时长时返回整段', () => {
+    expect(findBestRanges(peakCurve(3, 1), 3, 4)).toEqual([{ start: 0, end: 3 }]);
+  });
+
+  it('选出两个互不重叠、覆盖两个峰值的片段，按时间先后返回', () => {
+    const ranges = findBestRanges(peakCurve(20, 4, 15), 20, 4);
+    expect(ranges).toHaveLength(2);
+    expect(ranges.map(length)).toEqual([2, 2]);
+    expect(ranges[0].start).toBeLessThanOrEqual(4);
+    expect(ranges[0].end).toBeGreaterThanOrEqual(4);
+    expect(ranges[1].start).toBeLessThanOrEqual(15);
+    expect(ranges[1].end).toBeGreaterThanOrEqual(15);
+  });
+
+  it('时长只比目标略长、放不下第二个片段时退回一个长度为 total 的连续片段', () => {
+    // 峰值位于中间：最佳的 2 秒窗口占住中段，两侧都放不下另一个 2 秒窗口
+    const ranges = findBestRanges(peakCurve(4.5, 2.25), 4.5, 4);
+    expect(ranges).toHaveLength(1);
+    expect(length(ranges[0])).toBeCloseTo(4, 9);
+    expect(ranges[0].start).toBeGreaterThanOrEqual(0);
+    expect(ranges[0].end).toBeLessThanOrEqual(4.5 + 1e-6);
+
+    // 剪辑帧覆盖 4 秒源时间，不会把 2 秒片段拉伸到整个时长
+    const times = planClipTimes(ranges, 60, () => 1);
+    expect(times[times.length - 1] - times[0]).toBeGreaterThan(3.5);
+  });
+});
+
+describe('planClipTimes', () => {
+  it('不变速时在各片段内等间隔取样，片段首尾相接', () => {
+    const times = planClipTimes([{ start: 0, end: 1 }, { start: 5, end: 6 }], 4, () => 1);
+    expect(times).toHaveLength(4);
+    expect(times.slice(0, 2).every(t => t >= 0 && t <= 1)).toBe(true);
+    expect(times.slice(2).every(t => t >= 5 && t <= 6)).toBe(true);
+    expect(times[1] - times[0]).toBeCloseTo(times[3] - times[2], 1);
+  });
+
+  it('权重越高的位置分到的帧越多', () => {
+    const times = planClipTimes([{ start: 0, end: 2 }], 40, t => t < 1 ? 4 : 1);
+    expect(times.filter(t => t < 1).length).toBe(32);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+});
+
+describe('playbackOrder', () => {
+  it('正放或往返 (不重复首尾帧)', () => {
+    expect(playbackOrder(4, false)).toEqual([0, 1, 2, 3]);
+    expect(playbackOrder(4, true)).toEqual([0, 1, 2, 3, 2, 1]);
+    expect(playbackOrder(1, true)).toEqual([0]);
+  });
+});
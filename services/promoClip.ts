@@ -0,0 +1,305 @@
+
+import { ProductBatch, PromoClipSettings, PromoFormat, ScoreSample, ScoringMode } from '../types';
+import { getCuratedFrames } from './curation';
+import { drawVideoFrame, loadVideo, resolveGeometry, seekFrame, waitForDecodedFrame } from './frameAccess';
+import { encodeGifFrame, assembleGif } from './gifEncoder';
+import { muxAnimatedWebp } from './animatedWebp';
+
+/**
+ * 商品短视频与动图：按第一阶段评分曲线选出最清晰的时间段，剪辑为 3-6 秒的 WebM (MediaRecorder)、
+ * 动图 WebP 与 GIF，随批次 ZIP 导出
+ */
+
+export const DEFAULT_PROMO_CLIP: PromoClipSettings = {
+  enabled: false,
+  duration: 4,
+  square: true,
+  speedRamp: true,
+  loop: 'loop',
+  formats: ['webm', 'webp', 'gif']
+};
+
+export const PROMO_DURATIONS = [3, 4, 5, 6];
+
+const CLIP_FPS = 15;
+const CLIP_EDGE = 720;   // WebM / WebP 长边
+const GIF_EDGE = 360;    // GIF 体积较大，单独缩小
+// 时间段数量与单段最短时长：时长较长时拼接两个互不重叠的清晰片段
+const MAX_RANGES = 2;
+const MIN_RANGE_SECONDS = 2;
+// 变速时最清晰处与最模糊处的播放速度之比
+const RAMP_RATIO = 4;
+const CURVE_STEPS = 48;
+
+const RECORDER_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface PromoAsset {
+  format: PromoFormat;
+  blob: Blob;
+  ext: string;
+}
+
+const sampleValue = (s: ScoreSample, mode?: ScoringMode) =>
+  mode === 'sparkle' && s.sparkle !== undefined ? s.sparkle * (0.5 + 0.5 * s.score / 100) : s.score;
+
+/**
+ * 评分曲线在任意时间点的线性插值 (纯函数)，curve 按时间排序
+ */
+export function curveValueAt(curve: ScoreSample[], time: number, mode?: ScoringMode): number {
+  if (curve.length === 0) return 0;
+  if (time <= curve[0].time) return sampleValue(curve[0], mode);
+  for (let i = 1; i < curve.length; i++) {
+    if (time <= curve[i].time) {
+      const a = curve[i - 1];
+      const b = curve[i];
+      const t = (time - a.time) / Math.max(1e-6, b.time - a.time);
+      return sampleValue(a, mode) * (1 - t) + sampleValue(b, mode) * t;
+    }
+  }
+  return sampleValue(curve[curve.length - 1], mode);
+}
+
+// 长度为 length 的滑动窗口 (步长为长度的 1/4) 及其平均评分
+function scoreWindows(curve: ScoreSample[], duration: number, length: number, mode?: ScoringMode) {
+  const windows: (TimeRange & { score: number })[] = [];
+  for (let start = 0; start + length <= duration + 1e-6; start += length / 4) {
+    let sum = 0;
+    for (let k = 0; k < 8; k++) sum += curveValueAt(curve, start + (length * (k + 0.5)) / 8, mode);
+    windows.push({ start, end: start + length, score: sum / 8 });
+  }
+  return windows.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 平均评分最高且互不重叠的时间段 (纯函数)，总长为 total 秒，按时间先后返回。
+ * 放不下足够多互不重叠的片段时 (如视频只比 total 略长) 改为一个长度为 total 的连续片段，
+ * 避免单个短片段被拉伸到整个时长
+ */
+export function findBestRanges(curve: ScoreSample[], duration: number, total: number, mode?: ScoringMode): TimeRange[] {
+  if (duration <= total) return [{ start: 0, end: duration }];
+  const count = Math.max(1, Math.min(MAX_RANGES, Math.floor(total / MIN_RANGE_SECONDS)));
+
+  const picked: TimeRange[] = [];
+  scoreWindows(curve, duration, total / count, mode).forEach(w => {
+    if (picked.length >= count) return;
+    if (picked.some(p => w.start < p.end && p.start < w.end)) return;
+    picked.push({ start: w.start, end: w.end });
+  });
+  if (picked.length < count) {
+    const [best] = scoreWindows(curve, duration, total, mode);
+    return [{ start: best.start, end: best.end }];
+  }
+  return picked.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 输出帧对应的源时间 (纯函数)：各时间段首尾相接，按权重的累积分布等分取样。
+ * 权重越高的位置分到的帧越多，即播放越慢；不变速时权重恒为 1
+ */
+export function planClipTimes(ranges: TimeRange[], frameCount: number, weight: (time: number) => number): number[] {
+  const points: { time: number; cumulative: number }[] = [];
+  let total = 0;
+  ranges.forEach(range => {
+    const dt = (range.end - range.start) / CURVE_STEPS;
+    for (let k = 0; k < CURVE_STEPS; k++) {
+      const time = range.start + (k + 0.5) * dt;
+      points.push({ time, cumulative: total });
+      total += weight(time) * dt;
+    }
+  });
+
+  const times: number[] = [];
+  let j = 0;
+  for (let i = 0; i < frameCount; i++) {
+    const target = ((i + 0.5) / frameCount) * total;
+    while (j + 1 < points.length && points[j + 1].cumulative <= target) j++;
+    times.push(points[j].time);
+  }
+  return times;
+}
+
+/**
+ * 播放顺序 (纯函数)：往返为正放后倒放 (不重复首尾帧)
+ */
+export function playbackOrder(frameCount: number, boomerang: boolean): number[] {
+  const forward = Array.from({ length: frameCount }, (_, i) => i);
+  return boomerang ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+}
+
+export const canRenderPromo = (batch: ProductBatch) =>
+  batch.kind !== 'images' && !!batch.rawFile && !!batch.metadata && batch.metadata.scoreCurve.length > 0;
+
+const evenSize = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))), type, quality));
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 逐帧回放录制为视频；Safari 的 MediaRecorder 只支持 MP4
+ */
+async function recordVideo(frames: Blob[], order: number[], width: number, height: number): Promise<PromoAsset | null> {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : RECORDER_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!mimeType || !ctx || typeof canvas.captureStream !== 'function') return null;
+
+  // 帧率为 0 时只在 requestFrame 时输出，画面与计时一一对应；不支持时按固定帧率采集
+  type CaptureTrack = MediaStreamTrack & { requestFrame?: () => void };
+  let stream = canvas.captureStream(0);
+  let track = stream.getVideoTracks()[0] as CaptureTrack;
+  if (typeof track.requestFrame !== 'function') {
+    stream.getTracks().forEach(t => t.stop());
+    stream = canvas.captureStream(CLIP_FPS);
+    track = stream.getVideoTracks()[0] as CaptureTrack;
+  }
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const bitmaps = await Promise.all(frames.map(blob => createImageBitmap(blob)));
+  try {
+    recorder.start();
+    const frameMs = 1000 / CLIP_FPS;
+    const startedAt = performance.now();
+    for (let i = 0; i < order.length; i++) {
+      ctx.drawImage(bitmaps[order[i]], 0, 0, width, height);
+      track.requestFrame?.();
+      // 按绝对时间对齐，避免定时器误差累积
+      await delay(Math.max(0, startedAt + (i + 1) * frameMs - performance.now()));
+    }
+    recorder.stop();
+    await stopped;
+  } finally {
+    bitmaps.forEach(b => b.close());
+    stream.getTracks().forEach(t => t.stop());
+  }
+  return {
+    format: 'webm',
+    blob: new Blob(chunks, { type: mimeType.split(';')[0] }),
+    ext: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm'
+  };
+}
+
+/**
+ * 生成短视频与动图：寻帧取出各输出帧并绘制到输出画布 (可选方形裁剪)，
+ * 静态帧暂存为 WebP / JPEG 供动图封装与视频录制复用，GIF 帧在取帧时直接编码
+ */
+export async function renderPromoClip(
+  batch: ProductBatch,
+  settings: PromoClipSettings,
+  onProgress?: (percent: number) => void
+): Promise<PromoAsset[]> {
+  if (!canRenderPromo(batch)) return [];
+  const metadata = batch.metadata!;
+  const mode = metadata.extraction.mode;
+  const boomerang = settings.loop === 'boomerang';
+
+  const video = document.createElement('video');
+  const objectUrl = URL.createObjectURL(batch.rawFile!);
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    await loadVideo(video, objectUrl, undefined, metadata.source);
+    const geometry = resolveGeometry(video.videoWidth, video.videoHeight, metadata.source);
+
+    // 输出时长固定；往返时正放帧数约为一半
+    const totalFrames = Math.round(settings.duration * CLIP_FPS);
+    const frameCount = boomerang ? Math.floor(totalFrames / 2) + 1 : totalFrames;
+    const ranges = findBestRanges(metadata.scoreCurve, video.duration, settings.duration, mode);
+    const values = metadata.scoreCurve.map(s => sampleValue(s, mode));
+    const min = Math.min(...values);
+    const span = Math.max(1e-6, Math.max(...values) - min);
+    const times = planClipTimes(ranges, frameCount, settings.speedRamp
+      ? (t) => 1 + (RAMP_RATIO - 1) * (curveValueAt(metadata.scoreCurve, t, mode) - min) / span
+      : () => 1);
+
+    // 方形裁剪以最终精选第一张的商品区域为中心，未检测到时取画面中心
+    const region = getCuratedFrames(batch)[0]?.productRegion;
+    const side = Math.min(geometry.width, geometry.height);
+    const crop = settings.square
+      ? {
+          x: Math.min(geometry.width - side, Math.max(0, (region ? (region.x + region.width / 2) * geometry.width : geometry.width / 2) - side / 2)),
+          y: Math.min(geometry.height - side, Math.max(0, (region ? (region.y + region.height / 2) * geometry.height : geometry.height / 2) - side / 2)),
+          width: side,
+          height: side
+        }
+      : { x: 0, y: 0, width: geometry.width, height: geometry.height };
+
+    const scale = Math.min(1, CLIP_EDGE / Math.max(crop.width, crop.height));
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = Math.round(geometry.width * scale);
+    frameCanvas.height = Math.round(geometry.height * scale);
+    const output = document.createElement('canvas');
+    output.width = evenSize(crop.width * scale);
+    output.height = evenSize(crop.height * scale);
+    const gifScale = Math.min(1, GIF_EDGE / Math.max(output.width, output.height));
+    const gifCanvas = document.createElement('canvas');
+    gifCanvas.width = Math.round(output.width * gifScale);
+    gifCanvas.height = Math.round(output.height * gifScale);
+    const frameCtx = frameCanvas.getContext('2d', { alpha: false });
+    const outputCtx = output.getContext('2d', { alpha: false });
+    const gifCtx = gifCanvas.getContext('2d', { willReadFrequently: true });
+    if (!frameCtx || !outputCtx || !gifCtx) throw new Error('Canvas context unavailable');
+
+    const wantGif = settings.formats.includes('gif');
+    const stillType = settings.formats.includes('webp') ? 'image/webp' : 'image/jpeg';
+    const stills: Blob[] = [];
+    const gifFrames: Uint8Array[] = [];
+    const gifDelay = Math.round(100 / CLIP_FPS);
+
+    for (let i = 0; i < times.length; i++) {
+      await seekFrame(video, times[i]);
+      await waitForDecodedFrame(video);
+      drawVideoFrame(frameCtx, video, geometry, frameCanvas.width, frameCanvas.height);
+      outputCtx.drawImage(frameCanvas, crop.x * scale, crop.y * scale, crop.width * scale, crop.height * scale, 0, 0, output.width, output.height);
+      stills.push(await canvasToBlob(output, stillType, 0.85));
+      if (wantGif) {
+        gifCtx.drawImage(output, 0, 0, gifCanvas.width, gifCanvas.height);
+        gifFrames.push(encodeGifFrame(gifCtx.getImageData(0, 0, gifCanvas.width, gifCanvas.height), gifDelay));
+      }
+      onProgress?.(Math.round(((i + 1) / times.length) * 70));
+    }
+
+    const order = playbackOrder(frameCount, boomerang);
+    const assets: PromoAsset[] = [];
+    if (settings.formats.includes('webm')) {
+      const recorded = await recordVideo(stills, order, output.width, output.height);
+      if (recorded) assets.push(recorded);
+    }
+    onProgress?.(95);
+    // Safari 无法编码 WebP (toBlob 退回 PNG)，此时跳过动图 WebP
+    if (settings.formats.includes('webp') && stills[0]?.type === 'image/webp') {
+      const bytes = await Promise.all(stills.map(async b => new Uint8Array(await b.arrayBuffer())));
+      const webp = muxAnimatedWebp(order.map(i => bytes[i]), output.width, output.height, {
+        frameMs: Math.round(1000 / CLIP_FPS),
+        loopCount: settings.loop === 'none' ? 1 : 0
+      });
+      if (webp) assets.push({ format: 'webp', blob: webp, ext: 'webp' });
+    }
+    if (wantGif) {
+      assets.push({
+        format: 'gif',
+        blob: assembleGif(gifCanvas.width, gifCanvas.height, order.map(i => gifFrames[i]), settings.loop !== 'none'),
+        ext: 'gif'
+      });
+    }
+    onProgress?.(100);
+    return assets;
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+    video.removeAttribute('src');
+    video.load();
+  }
+}
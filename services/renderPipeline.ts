@@ -0,0 +1,88 @@
+
+import { AppConfig, ColorAdjustments, Keyframe, ProductBatch } from '../types';
+import { renderSquare } from './productCanvas';
+import { loadCanvas, removeBackground } from './imageProcessor';
+import { applyColorAdjustments, isNeutralAdjustments } from './colorCorrection';
+import { DEFAULT_EXPORT_PRESETS } from './exportPresets';
+import { DEFAULT_FILE_NAME_TEMPLATE } from './fileNaming';
+import { DEFAULT_PROMO_CLIP } from './promoClip';
+
+/**
+ * 导出渲染流水线：根据全局输出设置、批次色彩校正与帧上的手动调整生成 processedUrl。
+ * 各阶段之间传递画布，结果保存为无损 PNG，有损编码只在导出预设中进行一次
+ */
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  squareOutput: true,
+  squareSize: 1600,
+  padding: 80,
+  whiteBackground: false,
+  backgroundColor: '#ffffff',
+  exportPresets: DEFAULT_EXPORT_PRESETS,
+  metadata: { embed: true, artist: '', copyright: '' },
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  promoClip: DEFAULT_PROMO_CLIP
+};
+
+/**
+ * 单帧调整优先，否则使用批次级设置
+ */
+export function resolveAdjustments(batch: ProductBatch, frame: Keyframe): ColorAdjustments | undefined {
+  return frame.adjustments || batch.adjustments;
+}
+
+const hasProcessing = (config: AppConfig, adjustments?: ColorAdjustments) =>
+  config.squareOutput || config.whiteBackground || !isNeutralAdjustments(adjustments);
+
+export function renderSignature(frame: Keyframe, config: AppConfig, adjustments?: ColorAdjustments): string {
+  return JSON.stringify({
+    color: isNeutralAdjustments(adjustments) ? null : adjustments,
+    square: config.squareOutput ? { size: config.squareSize, padding: config.padding, crop: frame.crop || null } : null,
+    background: config.whiteBackground ? config.backgroundColor : null
+  });
+}
+
+export function needsRender(frame: Keyframe, config: AppConfig, adjustments?: ColorAdjustments): boolean {
+  if (!hasProcessing(config, adjustments)) return !!frame.processedUrl;
+  return frame.processedWith !== renderSignature(frame, config, adjustments);
+}
+
+const canvasToObjectUrl = (canvas: HTMLCanvasElement) =>
+  new Promise<string>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(URL.createObjectURL(blob)) : reject(new Error('Image encode failed')), 'image/png');
+  });
+
+/**
+ * 依次执行：色彩校正 → 白底抠图 → 方形裁剪
+ */
+export async function renderFrame(frame: Keyframe, config: AppConfig, adjustments?: ColorAdjustments): Promise<Keyframe> {
+  if (!hasProcessing(config, adjustments)) {
+    return { ...frame, processedUrl: undefined, processedWith: undefined };
+  }
+
+  let canvas = await loadCanvas(frame.dataUrl);
+  let region = frame.productRegion;
+  if (adjustments && !isNeutralAdjustments(adjustments)) {
+    canvas = applyColorAdjustments(canvas, adjustments);
+  }
+  if (config.whiteBackground) {
+    canvas = removeBackground(canvas, config.backgroundColor);
+  }
+  if (config.squareOutput) {
+    const square = renderSquare(canvas, config, frame.crop, region);
+    canvas = square.canvas;
+    region = square.region;
+  }
+
+  return {
+    ...frame,
+    processedUrl: await canvasToObjectUrl(canvas),
+    processedWith: renderSignature(frame, config, adjustments),
+    productRegion: region
+  };
+}
+
+/**
+ * 导出使用的图片：已渲染的结果优先，否则为原始高清帧
+ */
+export const getOutputUrl = (frame: Keyframe): string => frame.processedUrl || frame.dataUrl;
@@ -0,0 +1,45 @@
+
+import { FrameScore } from './frameScorers';
+import { analyzeFrame } from './frameAnalysis';
+import { ScorerWeights, ScoringMode } from '../types';
+
+/**
+ * 评分 Worker：接收分析帧 (ImageBitmap 或像素缓冲区)，按权重返回综合评分与各项明细，附带感知哈希，火彩模式另含高光统计
+ */
+export type ScoringRequest =
+  | { id: number; weights?: ScorerWeights; mode?: ScoringMode; bitmap: ImageBitmap }
+  | { id: number; weights?: ScorerWeights; mode?: ScoringMode; buffer: ArrayBuffer; width: number; height: number };
+
+export type ScoringResponse =
+  | { id: number; result: FrameScore }
+  | { id: number; error: string };
+
+const ctx = self as unknown as Worker;
+let canvas: OffscreenCanvas | null = null;
+let canvasCtx: OffscreenCanvasRenderingContext2D | null = null;
+
+function readBitmap(bitmap: ImageBitmap) {
+  // 复用同一块离屏画布，避免每帧重新分配
+  if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+    canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvasCtx = canvas.getContext('2d', { willReadFrequently: true, alpha: false });
+  }
+  if (!canvasCtx) throw new Error('OffscreenCanvas context unavailable');
+  canvasCtx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvasCtx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+ctx.onmessage = (e: MessageEvent<ScoringRequest>) => {
+  const req = e.data;
+  try {
+    const pixels = 'bitmap' in req
+      ? readBitmap(req.bitmap)
+      : { data: new Uint8ClampedArray(req.buffer), width: req.width, height: req.height };
+    const res: ScoringResponse = { id: req.id, result: analyzeFrame(pixels, req.weights, req.mode) };
+    ctx.postMessage(res);
+  } catch (err) {
+    const res: ScoringResponse = { id: req.id, error: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(res);
+  }
+};
@@ -0,0 +1,110 @@
+
+import { FrameScore } from './frameScorers';
+import { analyzeFrame } from './frameAnalysis';
+import type { ScoringRequest, ScoringResponse } from './scoring.worker';
+import { ScorerWeights, ScoringMode } from '../types';
+
+interface ScoringJob {
+  request: ScoringRequest;
+  transfer: Transferable[];
+  resolve: (result: FrameScore) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * 帧质量评分 Worker 池：分析帧以可转移对象发送，避免在主线程执行卷积计算
+ */
+class ScoringPool {
+  private idle: Worker[] = [];
+  private running = new Map<Worker, ScoringJob>();
+  private queue: ScoringJob[] = [];
+  private nextId = 1;
+  // 支持 OffscreenCanvas 时直接转移 ImageBitmap，像素读取也在 Worker 中完成
+  private useBitmap = typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+  constructor(size: number) {
+    for (let i = 0; i < size; i++) this.idle.push(this.spawn());
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('./scoring.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ScoringResponse>) => {
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      if (job) {
+        if ('error' in e.data) job.reject(new Error(e.data.error));
+        else job.resolve(e.data.result);
+      }
+      this.drain();
+    };
+    worker.onerror = (e) => {
+      // Worker 崩溃时丢弃该实例并补充新的 Worker
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      worker.terminate();
+      this.idle.push(this.spawn());
+      job?.reject(new Error(e.message || 'Scoring worker crashed'));
+      this.drain();
+    };
+    return worker;
+  }
+
+  private drain() {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop() as Worker;
+      const job = this.queue.shift() as ScoringJob;
+      this.running.set(worker, job);
+      worker.postMessage(job.request, job.transfer);
+    }
+  }
+
+  async score(
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    weights?: ScorerWeights,
+    mode?: ScoringMode
+  ): Promise<FrameScore> {
+    const id = this.nextId++;
+    let request: ScoringRequest;
+    let transfer: Transferable[];
+
+    if (this.useBitmap) {
+      const bitmap = await createImageBitmap(canvas);
+      request = { id, weights, mode, bitmap };
+      transfer = [bitmap];
+    } else {
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const buffer = imageData.data.buffer;
+      request = { id, weights, mode, buffer, width: imageData.width, height: imageData.height };
+      transfer = [buffer];
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, transfer, resolve, reject });
+      this.drain();
+    });
+  }
+}
+
+let sharedPool: ScoringPool | null = null;
+
+/**
+ * 对分析画布当前内容评分。所有批次共享同一个 Worker 池；不支持 Worker 的环境退回主线程计算
+ */
+export function scoreAnalysisFrame(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  weights?: ScorerWeights,
+  mode?: ScoringMode
+): Promise<FrameScore> {
+  if (typeof Worker === 'undefined') {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return Promise.resolve(analyzeFrame(imageData, weights, mode));
+  }
+  if (!sharedPool) {
+    const cores = navigator.hardwareConcurrency || 2;
+    sharedPool = new ScoringPool(Math.max(1, Math.min(4, cores - 1)));
+  }
+  return sharedPool.score(canvas, ctx, weights, mode);
+}
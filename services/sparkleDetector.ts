@@ -0,0 +1,75 @@
+
+import { SparkleStats } from '../types';
+import { PixelBuffer } from './frameScorers';
+
+/**
+ * 火彩检测 (纯函数)：统计画面中细小、高亮、高饱和的镜面光斑及其色相分散度
+ */
+
+// HSV 明度达到该值才视为高光
+const BRIGHT_VALUE = 220;
+// 光斑饱和度超过该值视为色散火彩，否则为白色闪光
+const FIRE_SATURATION = 0.25;
+// 光斑面积上限 (占画面比例)，更大的区域是整片反光或白色背景
+const MAX_AREA_RATIO = 0.0015;
+
+export function measureSparkle({ data, width, height }: PixelBuffer): SparkleStats {
+  const total = width * height;
+  const mask = new Uint8Array(total);
+  for (let p = 0; p < total; p++) {
+    const i = p * 4;
+    if (Math.max(data[i], data[i + 1], data[i + 2]) >= BRIGHT_VALUE) mask[p] = 1;
+  }
+
+  const maxArea = Math.max(4, Math.round(total * MAX_AREA_RATIO));
+  const stack: number[] = [];
+  let highlights = 0;
+  let fireHighlights = 0;
+  let hueX = 0;
+  let hueY = 0;
+
+  for (let start = 0; start < total; start++) {
+    if (mask[start] !== 1) continue;
+
+    // 四连通泛洪填充，访问过的像素标记为 2
+    let area = 0;
+    let r = 0, g = 0, b = 0;
+    mask[start] = 2;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop() as number;
+      const i = p * 4;
+      area++;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      const x = p % width;
+      if (x > 0 && mask[p - 1] === 1) { mask[p - 1] = 2; stack.push(p - 1); }
+      if (x < width - 1 && mask[p + 1] === 1) { mask[p + 1] = 2; stack.push(p + 1); }
+      if (p >= width && mask[p - width] === 1) { mask[p - width] = 2; stack.push(p - width); }
+      if (p < total - width && mask[p + width] === 1) { mask[p + width] = 2; stack.push(p + width); }
+    }
+
+    if (area > maxArea) continue;
+    highlights++;
+
+    r /= area; g /= area; b /= area;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    if (saturation < FIRE_SATURATION) continue;
+
+    fireHighlights++;
+    // 以单位向量累加色相，向量合成越短说明颜色越分散
+    const hue = Math.atan2(Math.sqrt(3) * (g - b), 2 * r - g - b);
+    hueX += Math.cos(hue);
+    hueY += Math.sin(hue);
+  }
+
+  const dispersion = fireHighlights < 2 ? 0 : 1 - Math.sqrt(hueX * hueX + hueY * hueY) / fireHighlights;
+  // 火彩光斑权重加倍，色散越丰富得分越高
+  const density = 1 - Math.exp(-(highlights + 2 * fireHighlights) / 30);
+  const score = density * (0.5 + 0.5 * dispersion) * 100;
+
+  return { highlights, fireHighlights, dispersion, score };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { groupUploads, isImageFile, sortBurst } from './stillProcessor';
+
+// Node 的 File 没有 webkitRelativePath，按浏览器选择文件夹时的形式补上
+const file = (name: string, type = '', folder = ''): File => {
+  const result = new File([], name, { type });
+  Object.defineProperty(result, 'webkitRelativePath', { value: folder ? `${folder}/${name}` : '' });
+  return result;
+};
+
+const names = (files: File[]) => files.map(f => f.name);
+
+describe('sortBurst', () => {
+  it('按文件名自然排序，IMG_9 在 IMG_10 之前', () => {
+    const files = ['IMG_10.jpg', 'IMG_9.jpg', 'IMG_100.jpg', 'IMG_2.jpg'].map(n => file(n));
+    expect(names(sortBurst(files))).toEqual(['IMG_2.jpg', 'IMG_9.jpg', 'IMG_10.jpg', 'IMG_100.jpg']);
+  });
+
+  it('不修改传入的数组', () => {
+    const files = [file('b.jpg'), file('a.jpg')];
+    sortBurst(files);
+    expect(names(files)).toEqual(['b.jpg', 'a.jpg']);
+  });
+});
+
+describe('groupUploads', () => {
+  it('视频各自成批，同一文件夹的图片合并并以文件夹命名', () => {
+    const { videos, bursts } = groupUploads([
+      file('a.mp4', 'video/mp4'),
+      file('DSC_11.JPG', 'image/jpeg', 'shoot/ring'),
+      file('DSC_2.JPG', 'image/jpeg', 'shoot/ring'),
+      file('clip.MOV'),
+      file('DSC_1.JPG', 'image/jpeg', 'shoot/ring')
+    ]);
+    expect(names(videos)).toEqual(['a.mp4', 'clip.MOV']);
+    expect(bursts).toHaveLength(1);
+    expect(bursts[0].name).toBe('ring');
+    expect(names(bursts[0].files)).toEqual(['DSC_1.JPG', 'DSC_2.JPG', 'DSC_11.JPG']);
+  });
+
+  it('不同文件夹分为不同批次，同名文件夹按完整路径区分', () => {
+    const { bursts } = groupUploads([
+      file('1.jpg', 'image/jpeg', 'a/ring'),
+      file('1.jpg', 'image/jpeg', 'b/ring'),
+      file('2.jpg', 'image/jpeg', 'a/ring'),
+      file('1.jpg', 'image/jpeg', 'necklace')
+    ]);
+    expect(bursts.map(b => [b.name, b.files.length])).toEqual([['ring', 2], ['ring', 1], ['necklace', 1]]);
+  });
+
+  it('多选的散图合并为一个批次，以排序后第一张的文件名 (去掉扩展名) 命名', () => {
+    const { videos, bursts } = groupUploads([file('IMG_10.heic'), file('IMG_9.png', 'image/png')]);
+    expect(videos).toEqual([]);
+    expect(bursts).toHaveLength(1);
+    expect(bursts[0].name).toBe('IMG_9');
+    expect(names(bursts[0].files)).toEqual(['IMG_9.png', 'IMG_10.heic']);
+  });
+
+  it('忽略文件夹中的非图片文件，没有图片时不产生批次', () => {
+    const { videos, bursts } = groupUploads([
+      file('.DS_Store', '', 'ring'),
+      file('IMG_1.xmp', 'application/rdf+xml', 'ring'),
+      file('notes.txt', 'text/plain')
+    ]);
+    expect(videos).toEqual([]);
+    expect(bursts).toEqual([]);
+  });
+});
+
+describe('isImageFile', () => {
+  it('没有 MIME 类型的 HEIC 按扩展名识别', () => {
+    expect(isImageFile(file('IMG_1.HEIC'))).toBe(true);
+    expect(isImageFile(file('IMG_1.xmp'))).toBe(false);
+  });
+});
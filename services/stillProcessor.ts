@@ -0,0 +1,225 @@
+
+import { ExtractionOptions, Keyframe, ProcessingMetadata, ScoreSample } from '../types';
+import { FrameScore } from './frameScorers';
+import { scoreAnalysisFrame } from './scoringPool';
+import { isBlankImage, VideoProcessingError } from './frameAccess';
+import {
+  DEFAULT_EXTRACTION_OPTIONS,
+  isNearDuplicate,
+  rankGlobally,
+  rankingScore,
+  resolveExtractionOptions
+} from './videoProcessor';
+
+/**
+ * 静态图片 / 连拍输入：一组图片作为一个批次，与视频抽帧共用评分、去重与全局精选。
+ * 图片没有时间轴：按文件名排序后的序号只在内部用于分段与评分曲线，帧以 Keyframe.sourceFile 标识来源
+ */
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|heic|heif|webp|avif)$/i;
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v|webm|mkv)$/i;
+
+// 分析画布长边与高清输出长边上限：相机原图可达 6000px 以上，全尺寸输出的 Base64 过大
+const ANALYSIS_EDGE = 640;
+const MAX_CAPTURE_EDGE = 4096;
+
+// HEIC 在部分系统上没有 MIME 类型，按扩展名补充判断
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+export const isVideoFile = (file: File) => file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+/**
+ * 连拍顺序 (纯函数)：按文件名自然排序，IMG_9 排在 IMG_10 之前
+ */
+export function sortBurst(files: File[]): File[] {
+  return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+export interface ImageBurst {
+  name: string;  // 文件夹名，多选散图时取第一张的文件名
+  files: File[];
+}
+
+/**
+ * 上传文件分组 (纯函数)：视频各自成批；图片按所在文件夹合并为一个批次，多选的散图合并为一个批次；
+ * 其他文件 (如文件夹中的 .xmp、.DS_Store) 忽略
+ */
+export function groupUploads(files: File[]): { videos: File[]; bursts: ImageBurst[] } {
+  const videos: File[] = [];
+  const folders = new Map<string, File[]>();
+  files.forEach(file => {
+    if (isVideoFile(file)) {
+      videos.push(file);
+    } else if (isImageFile(file)) {
+      const path = file.webkitRelativePath || '';
+      const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+      folders.set(folder, [...(folders.get(folder) || []), file]);
+    }
+  });
+  const bursts = [...folders].map(([folder, group]) => {
+    const ordered = sortBurst(group);
+    return { name: folder ? folder.split('/').pop() as string : ordered[0].name.replace(/\.[^.]+$/, ''), files: ordered };
+  });
+  return { videos, bursts };
+}
+
+/**
+ * 解码图片并在回调内使用，回调结束后释放；按 EXIF 方向摆正。
+ * createImageBitmap 不支持的格式 (如 Chrome 中的 HEIC) 退回 img 元素，仍无法解码时返回 null
+ */
+async function withImage<T>(
+  file: File,
+  use: (image: CanvasImageSource, width: number, height: number) => T
+): Promise<T | null> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => null);
+  if (bitmap) {
+    try {
+      return use(bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    const decoded = await img.decode().then(() => true, () => false);
+    return decoded && img.naturalWidth > 0 ? use(img, img.naturalWidth, img.naturalHeight) : null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function fitCanvas(canvas: HTMLCanvasElement, width: number, height: number, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+}
+
+function batchId(files: File[]): string {
+  const str = files.map(f => f.name + f.size + f.lastModified).join('|');
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash |= 0;
+  }
+  return Math.abs(hash).toString(16).substring(0, 4).toUpperCase();
+}
+
+/**
+ * 按抽帧方案从一组图片中精选：序列按分段数等分，每段全部评分后取前 N 名 (跨分段去重)，
+ * 再全局排名。起止时间与精扫不适用；连拍之间没有时间间隔，去重只看感知哈希
+ */
+export async function processImageBurst(
+  files: File[],
+  onProgress: (percent: number) => void,
+  options: ExtractionOptions = DEFAULT_EXTRACTION_OPTIONS,
+  signal?: AbortSignal
+): Promise<{ frames: Keyframe[]; metadata: ProcessingMetadata }> {
+  const ordered = sortBurst(files);
+  const count = ordered.length;
+  if (count === 0) throw new Error('No images in batch');
+
+  const resolved = resolveExtractionOptions({ ...options, startTime: 0, endTime: undefined, refine: undefined }, count);
+  const segments = Math.min(resolved.segments, count);
+  const extraction: ExtractionOptions = {
+    ...resolved,
+    segments,
+    samplesPerSegment: Math.ceil(count / segments),
+    dedupe: { ...resolved.dedupe!, minTimeGap: 0 }
+  };
+
+  const analysisCanvas = document.createElement('canvas');
+  const analysisCtx = analysisCanvas.getContext('2d', { willReadFrequently: true, alpha: false });
+  const captureCanvas = document.createElement('canvas');
+  const captureCtx = captureCanvas.getContext('2d', { alpha: false });
+  if (!analysisCtx || !captureCtx) throw new Error('Canvas context unavailable');
+
+  const now = new Date();
+  const sessionTime = `${now.getHours().toString().padStart(2, '0')}${now.getMinutes().toString().padStart(2, '0')}${now.getSeconds().toString().padStart(2, '0')}`;
+  const finalResults: Keyframe[] = [];
+  const scoreCurve: ScoreSample[] = [];
+  const selected: { time: number; hash?: string }[] = [];
+  let scanned = 0;
+  let skipped = 0;
+
+  for (let s = 0; s < segments; s++) {
+    const from = Math.floor((s * count) / segments);
+    const to = Math.floor(((s + 1) * count) / segments);
+
+    // 第一阶段：逐张缩小到分析画布评分；无法解码或黑屏的图片跳过
+    const scoring: Promise<FrameScore & { time: number }>[] = [];
+    for (let i = from; i < to; i++) {
+      signal?.throwIfAborted();
+      onProgress(Math.floor((scanned++ / count) * 80));
+      // 评分 Promise 包在对象中返回，避免被 await 展开；Worker 评分期间继续解码下一张
+      const task = await withImage(ordered[i], (image, width, height) => {
+        if (isBlankImage(image)) return null;
+        fitCanvas(analysisCanvas, width, height, ANALYSIS_EDGE);
+        analysisCtx.drawImage(image, 0, 0, analysisCanvas.width, analysisCanvas.height);
+        return {
+          result: scoreAnalysisFrame(analysisCanvas, analysisCtx, extraction.weights, extraction.mode)
+            .then(score => ({ ...score, time: i }))
+        };
+      });
+      if (task) scoring.push(task.result);
+      else skipped++;
+    }
+    const results = await Promise.all(scoring);
+    results.forEach(r => scoreCurve.push({ time: r.time, score: r.score, sparkle: r.sparkle?.score }));
+
+    const ranked = results.sort((a, b) => rankingScore(b, extraction.mode) - rankingScore(a, extraction.mode));
+    const picks: typeof ranked = [];
+    for (const candidate of ranked) {
+      if (picks.length >= extraction.picksPerSegment) break;
+      if (selected.some(prev => isNearDuplicate(prev, candidate, extraction.dedupe))) continue;
+      picks.push(candidate);
+      selected.push(candidate);
+    }
+
+    // 第二阶段：重新解码入选图片并输出高清 JPEG (透明背景铺白)
+    for (let j = 0; j < picks.length; j++) {
+      signal?.throwIfAborted();
+      const { time, score, metrics, sparkle, hash } = picks[j];
+      const file = ordered[time];
+      const dataUrl = await withImage(file, (image, width, height) => {
+        fitCanvas(captureCanvas, width, height, MAX_CAPTURE_EDGE);
+        captureCtx.fillStyle = '#ffffff';
+        captureCtx.fillRect(0, 0, captureCanvas.width, captureCanvas.height);
+        captureCtx.drawImage(image, 0, 0, captureCanvas.width, captureCanvas.height);
+        return captureCanvas.toDataURL('image/jpeg', 0.9);
+      });
+      if (!dataUrl) continue;
+      finalResults.push({
+        id: `p${s + 1}_r${j + 1}`,
+        dataUrl,
+        sourceFile: file.name,
+        score,
+        metrics,
+        sparkle,
+        hash,
+        partId: s + 1,
+        rankId: j + 1
+      });
+    }
+  }
+
+  if (finalResults.length === 0) {
+    throw new VideoProcessingError('undecodable-images', `${skipped} 张`);
+  }
+
+  onProgress(100);
+  return {
+    frames: rankGlobally(finalResults, extraction),
+    metadata: {
+      videoId: batchId(ordered),
+      sessionTime,
+      duration: 0,
+      imageCount: count,
+      extraction,
+      scoreCurve: scoreCurve.sort((a, b) => a.time - b.time),
+      captureDate: Math.min(...ordered.map(f => f.lastModified)),
+      blankSamples: skipped
+    }
+  };
+}
@@ -1,47 +1,280 @@
 
-import { Keyframe, ProcessingMetadata } from '../types';
+import {
+  DedupeOptions,
+  ExtractionOptions,
+  ExtractionPreset,
+  Keyframe,
+  ProcessingMetadata,
+  ScoreSample,
+  ScoringMode
+} from '../types';
+import { FrameScore } from './frameScorers';
+import { hammingDistance } from './perceptualHash';
+import { scoreAnalysisFrame } from './scoringPool';
+import { readContainer, typicalFrameDuration } from './mp4Demuxer';
+import { createWebCodecsFrameSource, isWebCodecsSupported } from './webCodecsSource';
+import {
+  createSeekFrameSource,
+  detectFrameHdr,
+  drawVideoFrame,
+  FrameGeometry,
+  FrameSource,
+  isAbortError,
+  loadVideo,
+  resolveGeometry,
+  VideoProcessingError
+} from './frameAccess';
 
 /**
- * 在低分辨率下计算拉普拉斯方差以大幅提升移动端速度
+ * 预置抽帧方案：短视频提高采样密度，长视频增加分段数量
  */
-function calculateLaplacianVariance(imageData: ImageData): number {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  const grayscale = new Float32Array(width * height);
-
-  // 灰度化处理
-  for (let i = 0; i < data.length; i += 4) {
-    grayscale[i / 4] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+export const EXTRACTION_PRESETS: ExtractionPreset[] = [
+  {
+    id: 'standard',
+    name: '标准 (120 帧)',
+    description: '5 段 × 24 样本，每段保留前 3 名，全局精选 5 张',
+    options: { segments: 5, samplesPerSegment: 24, picksPerSegment: 3, startTime: 0, topN: 5, maxPerSegment: 2 }
+  },
+  {
+    id: 'ring-spin',
+    name: '戒指旋转短片',
+    description: '适合 5-15 秒转台视频，4 段共 64 次寻帧 (粗扫 + 峰值精扫)，每段保留前 2 名，全局精选 4 张',
+    options: {
+      segments: 4, samplesPerSegment: 16, picksPerSegment: 2, startTime: 0, topN: 4, maxPerSegment: 2,
+      refine: { seekBudget: 64, coarseRatio: 0.5 }
+    }
+  },
+  {
+    id: 'try-on',
+    name: '长视频试戴',
+    description: '适合 60 秒以上的上身视频，8 段 × 20 样本，每段保留前 2 名，全局精选 6 张 (每段最多 1 张)',
+    options: { segments: 8, samplesPerSegment: 20, picksPerSegment: 2, startTime: 0, topN: 6, maxPerSegment: 1 }
+  },
+  {
+    id: 'adaptive',
+    name: '自适应精扫',
+    description: '5 段共 100 次寻帧，先粗扫找峰值再在峰值附近密集寻帧，每段保留前 3 名',
+    options: {
+      segments: 5, samplesPerSegment: 10, picksPerSegment: 3, startTime: 0, topN: 5, maxPerSegment: 2,
+      refine: { seekBudget: 100, coarseRatio: 0.5 }
+    }
+  },
+  {
+    id: 'sparkle',
+    name: '钻石火彩',
+    description: '火彩模式，优先选取莫桑钻/钻石闪光最强的瞬间，5 段 × 32 样本',
+    options: { segments: 5, samplesPerSegment: 32, picksPerSegment: 3, startTime: 0, topN: 5, maxPerSegment: 2, mode: 'sparkle' }
   }
+];
+
+export const DEFAULT_EXTRACTION_OPTIONS: ExtractionOptions = EXTRACTION_PRESETS[0].options;
+
+export const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = { maxHashDistance: 6, minTimeGap: 0.25 };
+
+export const DEFAULT_TOP_N = 5;
+export const DEFAULT_MAX_PER_SEGMENT = 2;
 
-  let sum = 0;
-  let count = 0;
-  const laplacian = new Float32Array(width * height);
-
-  // 计算拉普拉斯算子
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = y * width + x;
-      const val = -4 * grayscale[idx] + 
-                  grayscale[idx - 1] + 
-                  grayscale[idx + 1] + 
-                  grayscale[idx - width] + 
-                  grayscale[idx + width];
-      laplacian[idx] = val;
-      sum += val;
-      count++;
+/**
+ * 按视频时长修正抽帧方案：数量取正整数，时间窗限制在视频范围内
+ */
+export function resolveExtractionOptions(options: ExtractionOptions, duration: number): ExtractionOptions {
+  const toCount = (n: number) => Math.max(1, Math.floor(n) || 1);
+  const startTime = Math.min(Math.max(0, options.startTime || 0), duration);
+  const endTime = options.endTime === undefined ? duration : Math.min(Math.max(0, options.endTime), duration);
+  if (endTime <= startTime) {
+    // 时间窗无效时退回整段视频
+    return resolveExtractionOptions({ ...options, startTime: 0, endTime: undefined }, duration);
+  }
+  return {
+    segments: toCount(options.segments),
+    samplesPerSegment: toCount(options.samplesPerSegment),
+    picksPerSegment: toCount(options.picksPerSegment),
+    startTime,
+    endTime,
+    weights: options.weights,
+    mode: options.mode || 'sharpness',
+    dedupe: { ...DEFAULT_DEDUPE_OPTIONS, ...options.dedupe },
+    topN: toCount(options.topN ?? DEFAULT_TOP_N),
+    maxPerSegment: toCount(options.maxPerSegment ?? DEFAULT_MAX_PER_SEGMENT),
+    refine: options.refine && {
+      seekBudget: toCount(options.refine.seekBudget),
+      coarseRatio: Math.min(1, Math.max(0.1, options.refine.coarseRatio))
     }
+  };
+}
+
+/**
+ * 每个分段的寻帧计划：未开启精扫时全部用于等距扫描；开启后按预算拆分粗扫与精扫
+ */
+export function planSegmentSeeks(options: ExtractionOptions): { coarse: number; fine: number } {
+  if (!options.refine) return { coarse: options.samplesPerSegment, fine: 0 };
+  const perSegment = Math.max(1, Math.floor(options.refine.seekBudget / options.segments));
+  const coarse = Math.min(perSegment, Math.max(3, Math.round(perSegment * options.refine.coarseRatio)));
+  return { coarse, fine: perSegment - coarse };
+}
+
+export function totalAnalysisSeeks(options: ExtractionOptions): number {
+  const { coarse, fine } = planSegmentSeeks(options);
+  return options.segments * (coarse + fine);
+}
+
+/**
+ * 粗扫评分曲线的局部极大值 (不低于相邻样本)，按排序评分从高到低返回
+ */
+export function findLocalMaxima<T extends FrameScore & { time: number }>(samples: T[], mode?: ScoringMode): T[] {
+  const sorted = [...samples].sort((a, b) => a.time - b.time);
+  const value = (s: T) => rankingScore(s, mode);
+  return sorted
+    .filter((s, i) =>
+      (i === 0 || value(s) >= value(sorted[i - 1])) &&
+      (i === sorted.length - 1 || value(s) >= value(sorted[i + 1]))
+    )
+    .sort((a, b) => value(b) - value(a));
+}
+
+/**
+ * 峰值两侧各一个粗扫间隔内的等距精扫时间点 (不含峰值本身)，限制在分段范围内
+ */
+export function refineTimes(peak: number, interval: number, count: number, min: number, max: number): number[] {
+  const times: number[] = [];
+  const step = (2 * interval) / (count + 1);
+  for (let k = 1; k <= count; k++) {
+    const t = peak - interval + k * step;
+    if (t >= min && t < max && Math.abs(t - peak) > 1e-6) times.push(t);
   }
+  return times;
+}
 
-  const mean = sum / count;
-  let varianceSum = 0;
-  for (let i = 0; i < laplacian.length; i++) {
-    if (laplacian[i] !== 0) { // 简单边缘过滤
-      varianceSum += Math.pow(laplacian[i] - mean, 2);
-    }
+/**
+ * 全局排名：将所有分段候选帧的排序评分归一化到 0-100，按分段上限选出全局 Top N
+ */
+export function rankGlobally(frames: Keyframe[], options: ExtractionOptions): Keyframe[] {
+  const topN = options.topN ?? DEFAULT_TOP_N;
+  const maxPerSegment = options.maxPerSegment ?? DEFAULT_MAX_PER_SEGMENT;
+  const raw = frames.map(f => rankingScore(f, options.mode));
+  const min = Math.min(...raw);
+  const range = Math.max(...raw) - min;
+
+  const scored = frames.map((f, i) => ({
+    ...f,
+    globalScore: range > 0 ? ((raw[i] - min) / range) * 100 : 100,
+    globalRank: undefined as number | undefined
+  }));
+
+  const perSegment = new Map<number, number>();
+  let rank = 0;
+  [...scored]
+    .sort((a, b) => b.globalScore - a.globalScore)
+    .forEach((f) => {
+      const used = perSegment.get(f.partId) || 0;
+      if (rank >= topN || used >= maxPerSegment) return;
+      perSegment.set(f.partId, used + 1);
+      f.globalRank = ++rank;
+    });
+
+  return scored;
+}
+
+/**
+ * 最终精选帧，按全局排名排序
+ */
+export function getFinalSelection(frames: Keyframe[]): Keyframe[] {
+  return frames
+    .filter(f => f.globalRank !== undefined)
+    .sort((a, b) => (a.globalRank as number) - (b.globalRank as number));
+}
+
+/**
+ * 近似重复判断：时间过近或感知哈希过于相似
+ */
+export function isNearDuplicate(
+  a: { time: number; hash?: string },
+  b: { time: number; hash?: string },
+  dedupe: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): boolean {
+  if (Math.abs(a.time - b.time) < dedupe.minTimeGap) return true;
+  return !!a.hash && !!b.hash && hammingDistance(a.hash, b.hash) <= dedupe.maxHashDistance;
+}
+
+/**
+ * 排序依据：清晰度模式直接使用综合评分；火彩模式以火彩为主，清晰度作为折扣避免糊帧胜出
+ */
+export function rankingScore(result: Pick<FrameScore, 'score' | 'sparkle'>, mode: ScoringMode = 'sharpness'): number {
+  if (mode === 'sparkle' && result.sparkle) {
+    return result.sparkle.score * (0.5 + 0.5 * result.score / 100);
   }
-  return varianceSum / count;
+  return result.score;
+}
+
+/**
+ * 未知帧率时按 30fps 估算单帧时长，用于时间轴逐帧微调
+ */
+export const FRAME_STEP = 1 / 30;
+
+/**
+ * 时间轴逐帧微调的步长：优先使用容器样本表中的单帧时长
+ */
+export const frameStep = (metadata?: ProcessingMetadata) => metadata?.frameDuration || FRAME_STEP;
+
+interface FrameCanvases {
+  geometry: FrameGeometry;
+  captureCanvas: HTMLCanvasElement;
+  captureCtx: CanvasRenderingContext2D;
+  analysisCanvas: HTMLCanvasElement;
+  analysisCtx: CanvasRenderingContext2D;
+}
+
+function createFrameCanvases(
+  video: HTMLVideoElement,
+  geometry: FrameGeometry = resolveGeometry(video.videoWidth, video.videoHeight)
+): FrameCanvases | null {
+  // 高清提取画布 (用于最终输出)
+  const captureCanvas = document.createElement('canvas');
+  captureCanvas.width = geometry.width;
+  captureCanvas.height = geometry.height;
+  const captureCtx = captureCanvas.getContext('2d', { alpha: false });
+
+  // 快速分析画布 (限制分辨率以提升分析速度，iPhone 性能优化的核心)
+  const analysisCanvas = document.createElement('canvas');
+  const analysisScale = Math.min(1, 640 / Math.max(geometry.width, geometry.height));
+  analysisCanvas.width = geometry.width * analysisScale;
+  analysisCanvas.height = geometry.height * analysisScale;
+  const analysisCtx = analysisCanvas.getContext('2d', { willReadFrequently: true, alpha: false });
+
+  if (!captureCtx || !analysisCtx) return null;
+  return { geometry, captureCanvas, captureCtx, analysisCanvas, analysisCtx };
+}
+
+/**
+ * 从已加载的视频元素截取当前画面，评分、旋转与高清输出方式与 processVideo 第二阶段一致
+ */
+export async function captureKeyframe(video: HTMLVideoElement, metadata: ProcessingMetadata): Promise<Keyframe> {
+  const { extraction } = metadata;
+  const canvases = createFrameCanvases(video, resolveGeometry(video.videoWidth, video.videoHeight, metadata.source));
+  if (!canvases) throw new Error('Canvas context unavailable');
+  const { geometry, captureCanvas, captureCtx, analysisCanvas, analysisCtx } = canvases;
+  const time = video.currentTime;
+
+  drawVideoFrame(analysisCtx, video, geometry, analysisCanvas.width, analysisCanvas.height);
+  const { score, metrics, sparkle, hash } = await scoreAnalysisFrame(analysisCanvas, analysisCtx, extraction.weights, extraction.mode);
+  drawVideoFrame(captureCtx, video, geometry, captureCanvas.width, captureCanvas.height);
+
+  const endTime = extraction.endTime ?? video.duration;
+  const segmentDuration = (endTime - extraction.startTime) / extraction.segments;
+  const partId = Math.min(extraction.segments, Math.max(1, Math.floor((time - extraction.startTime) / segmentDuration) + 1));
+
+  return {
+    id: `c_${Math.round(time * 1000)}`,
+    dataUrl: captureCanvas.toDataURL('image/jpeg', 0.9),
+    timestamp: time,
+    score,
+    metrics,
+    sparkle,
+    hash,
+    partId,
+    rankId: 0,
+    custom: true
+  };
 }
 
 /**
@@ -59,7 +292,9 @@ function generateVideoId(file: File): string {
 
 export async function processVideo(
   videoFile: File,
-  onProgress: (percent: number) => void
+  onProgress: (percent: number) => void,
+  options: ExtractionOptions = DEFAULT_EXTRACTION_OPTIONS,
+  signal?: AbortSignal
 ): Promise<{ frames: Keyframe[]; metadata: ProcessingMetadata }> {
   const videoId = generateVideoId(videoFile);
   const now = new Date();
@@ -67,104 +302,154 @@ export async function processVideo(
 
   const video = document.createElement('video');
   const objectUrl = URL.createObjectURL(videoFile);
-  video.src = objectUrl;
   video.muted = true;
   video.playsInline = true;
 
-  return new Promise((resolve, reject) => {
-    video.onloadedmetadata = async () => {
-      const duration = video.duration;
-      
-      // 高清提取画布 (用于最终输出)
-      const captureCanvas = document.createElement('canvas');
-      captureCanvas.width = video.videoWidth;
-      captureCanvas.height = video.videoHeight;
-      const captureCtx = captureCanvas.getContext('2d', { alpha: false });
-
-      // 快速分析画布 (限制分辨率以提升分析速度，iPhone 性能优化的核心)
-      const analysisCanvas = document.createElement('canvas');
-      const analysisScale = Math.min(1, 640 / Math.max(video.videoWidth, video.videoHeight));
-      analysisCanvas.width = video.videoWidth * analysisScale;
-      analysisCanvas.height = video.videoHeight * analysisScale;
-      const analysisCtx = analysisCanvas.getContext('2d', { willReadFrequently: true, alpha: false });
-
-      if (!captureCtx || !analysisCtx) return reject('Canvas context unavailable');
-
-      const segments = 5;
-      const segmentDuration = duration / segments;
-      const samplesPerSegment = 24; 
-      const finalResults: Keyframe[] = [];
+  try {
+    // 容器探测 (编码、旋转、HDR) 与样本表；非 MP4 / MOV 时均为 null，不影响处理
+    const { source, track } = await readContainer(videoFile);
+    await loadVideo(video, objectUrl, signal, source);
 
-      for (let s = 0; s < segments; s++) {
-        const segmentScores: { time: number; score: number }[] = [];
+    const duration = video.duration;
+    const extraction = resolveExtractionOptions(options, duration);
+    const { segments, picksPerSegment, startTime } = extraction;
+    const windowDuration = (extraction.endTime as number) - startTime;
+    const segmentDuration = windowDuration / segments;
+    const plan = planSegmentSeeks(extraction);
+    const totalSamples = segments * (plan.coarse + plan.fine);
 
-        // 第一阶段：快速扫描，仅计算得分，不生成 Base64 图片 (节省 90% 内存)
-        for (let i = 0; i < samplesPerSegment; i++) {
-          const totalSamples = segments * samplesPerSegment;
-          const currentSample = (s * samplesPerSegment) + i;
-          // 进度计算分两步，第一阶段占 80%
-          onProgress(Math.floor((currentSample / totalSamples) * 80));
+    const extract = async (frames: FrameSource) => {
+      const canvases = createFrameCanvases(video, frames.geometry);
+      if (!canvases) throw new Error('Canvas context unavailable');
+      const { geometry, captureCanvas, captureCtx, analysisCanvas, analysisCtx } = canvases;
 
-          const time = (s * segmentDuration) + (i * (segmentDuration / samplesPerSegment));
-          video.currentTime = time;
+      const finalResults: Keyframe[] = [];
+      const scoreCurve: ScoreSample[] = [];
+      // 已入选帧 (跨分段)，用于抑制相邻分段的近似重复
+      const selected: { time: number; hash?: string }[] = [];
+      let scannedSamples = 0;
+      let blankSamples = 0;
+      let hdr = source?.hdr;
+      // 容器未提供色彩信息时，用第一帧判断一次 HDR
+      let hdrChecked = !!source;
 
-          await new Promise((r) => {
-            const onSeeked = () => {
-              video.removeEventListener('seeked', onSeeked);
-              r(null);
-            };
-            video.addEventListener('seeked', onSeeked);
+      // 按时间顺序取帧并在小画布上绘图，评分交给 Worker 池，主线程继续取帧；黑屏样本不参与评分
+      const scan = async (times: number[]) => {
+        const results: (FrameScore & { time: number })[] = [];
+        const scoring: Promise<void>[] = [];
+        const blank = await frames.visit(times, (image, time) => {
+          // 进度计算分两步，第一阶段占 80%
+          onProgress(Math.floor((scannedSamples++ / totalSamples) * 80));
+          if (!hdrChecked) {
+            hdr = detectFrameHdr(image);
+            hdrChecked = true;
+          }
+          drawVideoFrame(analysisCtx, image, geometry, analysisCanvas.width, analysisCanvas.height);
+          const task = scoreAnalysisFrame(analysisCanvas, analysisCtx, extraction.weights, extraction.mode).then((result) => {
+            results.push({ ...result, time });
+            scoreCurve.push({ time, score: result.score, sparkle: result.sparkle?.score });
           });
+          scoring.push(task);
+          return task;
+        }, { signal, skipBlank: true });
+        scannedSamples += blank;
+        blankSamples += blank;
+        await Promise.all(scoring);
+        return results.sort((a, b) => a.time - b.time);
+      };
 
-          // 在小画布上绘图并分析
-          analysisCtx.drawImage(video, 0, 0, analysisCanvas.width, analysisCanvas.height);
-          const imageData = analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height);
-          const score = calculateLaplacianVariance(imageData);
+      for (let s = 0; s < segments; s++) {
+        const segmentStart = startTime + s * segmentDuration;
+        const interval = segmentDuration / plan.coarse;
 
-          segmentScores.push({ time, score });
+        // 第一阶段：快速扫描，仅计算得分，不生成 Base64 图片 (节省 90% 内存)
+        let segmentScores = await scan(Array.from({ length: plan.coarse }, (_, i) => segmentStart + i * interval));
+
+        // 精扫：在得分最高的局部峰值附近密集取帧，捕捉等距采样错过的清晰瞬间
+        if (plan.fine > 0) {
+          const peaks = findLocalMaxima(segmentScores, extraction.mode).slice(0, picksPerSegment);
+          const perPeak = Math.floor(plan.fine / Math.max(1, peaks.length));
+          const fineTimes = peaks.flatMap(p =>
+            refineTimes(p.time, interval, perPeak, segmentStart, segmentStart + segmentDuration)
+          );
+          segmentScores = segmentScores.concat(await scan(fineTimes));
         }
 
-        // 筛选该段得分最高的前 3 名
-        const top3Times = segmentScores
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 3);
-
-        // 第二阶段：仅对该片段的 Top 3 进行高清截图
-        for (let j = 0; j < top3Times.length; j++) {
-          const { time, score } = top3Times[j];
-          video.currentTime = time;
-          await new Promise((r) => {
-            const onSeeked = () => {
-              video.removeEventListener('seeked', onSeeked);
-              r(null);
-            };
-            video.addEventListener('seeked', onSeeked);
-          });
+        // 筛选该段得分最高的前 N 名，与已入选帧过于相似时顺延至下一名
+        const ranked = segmentScores
+          .sort((a, b) => rankingScore(b, extraction.mode) - rankingScore(a, extraction.mode));
+        const topTimes: typeof ranked = [];
+        for (const candidate of ranked) {
+          if (topTimes.length >= picksPerSegment) break;
+          if (selected.some(prev => isNearDuplicate(prev, candidate, extraction.dedupe))) continue;
+          topTimes.push(candidate);
+          selected.push(candidate);
+        }
 
-          captureCtx.drawImage(video, 0, 0, captureCanvas.width, captureCanvas.height);
-          
-          finalResults.push({
+        // 第二阶段：仅对该片段的 Top N 进行高清截图，时间戳取实际呈现画面的媒体时间
+        const captured: Keyframe[] = [];
+        await frames.visit(topTimes.map(t => t.time), (image, time, mediaTime) => {
+          const j = topTimes.findIndex(t => t.time === time);
+          const { score, metrics, sparkle, hash } = topTimes[j];
+          drawVideoFrame(captureCtx, image, geometry, captureCanvas.width, captureCanvas.height);
+          captured[j] = {
             id: `p${s+1}_r${j+1}`,
             dataUrl: captureCanvas.toDataURL('image/jpeg', 0.9), // 0.9 质量足以满足电商需求且大幅减小体积
-            timestamp: time,
+            timestamp: mediaTime,
             score: score,
+            metrics,
+            sparkle,
+            hash,
             partId: s + 1,
             rankId: j + 1
-          });
-        }
+          };
+        }, { signal, skipBlank: false });
+        finalResults.push(...captured.filter(Boolean));
       }
 
-      onProgress(100);
-      URL.revokeObjectURL(objectUrl);
-      resolve({ 
-        frames: finalResults, 
-        metadata: { videoId, sessionTime } 
-      });
+      // 全部样本都是黑屏时，通常是浏览器能读取容器但无法解码画面
+      if (finalResults.length === 0 && blankSamples > 0) {
+        throw new VideoProcessingError('unsupported-codec', '所有采样画面均为黑屏');
+      }
+      return { finalResults, scoreCurve, blankSamples, hdr };
     };
 
-    video.onerror = () => {
-      URL.revokeObjectURL(objectUrl);
-      reject('Video processing error');
+    // H.264 / HEVC 且浏览器支持时优先 WebCodecs 顺序解码，失败后退回寻帧方式重新处理
+    const seekSource = () => createSeekFrameSource(video, resolveGeometry(video.videoWidth, video.videoHeight, source));
+    let frames = track && (await isWebCodecsSupported(track))
+      ? createWebCodecsFrameSource(videoFile, track, video, source)
+      : seekSource();
+    let result: Awaited<ReturnType<typeof extract>>;
+    try {
+      result = await extract(frames);
+    } catch (err) {
+      if (frames.kind !== 'webcodecs' || isAbortError(err)) throw err;
+      console.warn('WebCodecs decoding failed, falling back to seeking', err);
+      frames = seekSource();
+      result = await extract(frames);
+    }
+    const { finalResults, scoreCurve, blankSamples, hdr } = result;
+
+    onProgress(100);
+    return { 
+      frames: rankGlobally(finalResults, extraction), 
+      metadata: {
+        videoId,
+        sessionTime,
+        duration,
+        extraction,
+        scoreCurve: scoreCurve.sort((a, b) => a.time - b.time),
+        captureDate: videoFile.lastModified,
+        source: source || hdr ? { rotation: 0, ...source, hdr } : undefined,
+        blankSamples,
+        decoder: frames.kind,
+        frameDuration: track ? typicalFrameDuration(track) : undefined
+      } 
     };
-  });
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+    // 释放解码器占用
+    video.removeAttribute('src');
+    video.load();
+  }
 }
@@ -0,0 +1,164 @@
+
+import { VideoSourceInfo } from '../types';
+import { FrameSource, isBlankImage, resolveGeometry } from './frameAccess';
+import { Mp4Sample, Mp4VideoTrack } from './mp4Demuxer';
+
+/**
+ * WebCodecs 画面来源：本地解复用后按 GOP 顺序解码，只解码包含采样点的 GOP，
+ * 避免寻帧方式每个样本一次随机访问解码
+ */
+
+// 解码队列与未完成回调 (评分) 的上限，超出时暂停送入数据
+const MAX_DECODE_QUEUE = 8;
+const MAX_PENDING_FRAMES = 4;
+const DEQUEUE_WAIT_MS = 50;
+// 一个 GOP 的样本跨度 (含交错的音频) 不超过该值时一次读取
+const MAX_READ_SPAN = 32 * 1024 * 1024;
+
+const toMicroseconds = (seconds: number) => Math.round(seconds * 1e6);
+
+const decoderConfig = (track: Mp4VideoTrack): VideoDecoderConfig => ({
+  codec: track.codec,
+  description: track.description,
+  codedWidth: track.codedWidth,
+  codedHeight: track.codedHeight
+});
+
+/**
+ * 当前浏览器能否用 WebCodecs 解码该视频轨
+ */
+export async function isWebCodecsSupported(track: Mp4VideoTrack): Promise<boolean> {
+  if (typeof VideoDecoder === 'undefined' || typeof EncodedVideoChunk === 'undefined') return false;
+  try {
+    return !!(await VideoDecoder.isConfigSupported(decoderConfig(track))).supported;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 时间点对应的样本 (纯函数)：呈现时间不超过该时间的最后一帧，与 video 元素寻帧显示的画面一致；
+ * order 为按呈现时间排序的样本下标
+ */
+export function frameIndexAt(samples: Mp4Sample[], order: number[], time: number): number {
+  let lo = 0;
+  let hi = order.length - 1;
+  let found = order[0];
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    // 容许微秒级误差，避免浮点舍入落到前一帧
+    if (samples[order[mid]].pts <= time + 1e-6) {
+      found = order[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+async function readSamples(file: Blob, samples: Mp4Sample[], start: number, end: number): Promise<Uint8Array[]> {
+  const range = samples.slice(start, end);
+  const from = Math.min(...range.map(s => s.offset));
+  const to = Math.max(...range.map(s => s.offset + s.size));
+  if (to - from <= MAX_READ_SPAN) {
+    const data = new Uint8Array(await file.slice(from, to).arrayBuffer());
+    return range.map(s => data.subarray(s.offset - from, s.offset - from + s.size));
+  }
+  return Promise.all(range.map(async s => new Uint8Array(await file.slice(s.offset, s.offset + s.size).arrayBuffer())));
+}
+
+const waitForDequeue = (decoder: VideoDecoder) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, DEQUEUE_WAIT_MS);
+  decoder.addEventListener('dequeue', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+export function createWebCodecsFrameSource(
+  file: Blob,
+  track: Mp4VideoTrack,
+  video: HTMLVideoElement,
+  source: VideoSourceInfo | null
+): FrameSource {
+  const { samples } = track;
+  const order = samples.map((_, i) => i).sort((a, b) => samples[a].pts - samples[b].pts);
+  const syncIndices = samples.flatMap((s, i) => (s.sync ? [i] : []));
+  const gopStart = (index: number) => syncIndices.filter(i => i <= index).pop() ?? 0;
+  const gopEnd = (start: number) => syncIndices.find(i => i > start) ?? samples.length;
+
+  return {
+    kind: 'webcodecs',
+    // 解码输出未应用容器旋转，始终按旋转矩阵绘制；输出尺寸与寻帧方式一致
+    geometry: { ...resolveGeometry(video.videoWidth, video.videoHeight, source), rotation: source?.rotation || 0 },
+
+    async visit(times, onFrame, { signal, skipBlank }) {
+      // 目标帧时间戳 (微秒) → 请求的时间点；同一帧可能对应多个时间点
+      const wanted = new Map<number, number[]>();
+      const gops = new Set<number>();
+      [...times].sort((a, b) => a - b).forEach(time => {
+        const index = frameIndexAt(samples, order, time);
+        const timestamp = toMicroseconds(samples[index].pts);
+        wanted.set(timestamp, [...(wanted.get(timestamp) || []), time]);
+        gops.add(gopStart(index));
+      });
+
+      let blank = 0;
+      let failure: unknown = null;
+      const pending: Promise<void>[] = [];
+      const decoder = new VideoDecoder({
+        output: (frame) => {
+          const targets = wanted.get(frame.timestamp);
+          try {
+            if (!targets) return;
+            wanted.delete(frame.timestamp);
+            if (skipBlank && isBlankImage(frame)) {
+              blank += targets.length;
+              return;
+            }
+            targets.forEach(time => {
+              const result = onFrame(frame, time, frame.timestamp / 1e6);
+              if (result) pending.push(result);
+            });
+          } catch (err) {
+            failure = err;
+          } finally {
+            frame.close();
+          }
+        },
+        error: (err) => { failure = err; }
+      });
+
+      try {
+        decoder.configure(decoderConfig(track));
+        for (const start of [...gops].sort((a, b) => a - b)) {
+          const end = gopEnd(start);
+          const data = await readSamples(file, samples, start, end);
+          for (let i = start; i < end; i++) {
+            if (signal?.aborted) throw signal.reason;
+            if (failure) throw failure;
+            decoder.decode(new EncodedVideoChunk({
+              type: samples[i].sync ? 'key' : 'delta',
+              timestamp: toMicroseconds(samples[i].pts),
+              duration: toMicroseconds(samples[i].duration),
+              data: data[i - start]
+            }));
+            while (decoder.decodeQueueSize > MAX_DECODE_QUEUE || pending.length > MAX_PENDING_FRAMES) {
+              if (pending.length > MAX_PENDING_FRAMES) await pending.shift();
+              else await waitForDequeue(decoder);
+            }
+          }
+        }
+        await decoder.flush();
+        if (failure) throw failure;
+        // 解码器未输出的目标帧无法与寻帧结果对应，交由调用方退回寻帧方式
+        if (wanted.size > 0) throw new Error(`WebCodecs: ${wanted.size} target frames missing`);
+        await Promise.all(pending);
+        return blank;
+      } finally {
+        if (decoder.state !== 'closed') decoder.close();
+      }
+    }
+  };
+}
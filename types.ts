@@ -2,13 +2,59 @@
 export interface Keyframe {
   id: string;
   dataUrl: string;
-  processedUrl?: string; // Kept for interface compatibility but unused in logic
-  timestamp: number;
+  processedUrl?: string;   // 渲染后的导出图 (方形主图等)，存在时优先于 dataUrl 导出
+  processedWith?: string;  // 生成 processedUrl 时的参数签名，参数变化后需重新渲染
+  productRegion?: ProductRegion; // 检测到的商品区域 (归一化坐标)
+  crop?: CropOverride;     // 预览中手动调整的裁剪
+  adjustments?: ColorAdjustments; // 单帧色彩校正，留空使用批次设置
+  timestamp?: number;      // 实际呈现画面的媒体时间 (秒)；图片批次没有时间轴，不设置
+  sourceFile?: string;     // 图片批次的来源文件名，代替时间戳用于命名、清单与元数据
   score: number;
   label?: string;
   aiDescription?: string;
-  partId: number; // Segment 1-5
-  rankId: number; // Rank 1-3
+  partId: number; // Segment 1-N (由抽帧方案决定)
+  rankId: number; // Rank 1-N (由抽帧方案决定)
+  metrics?: MetricScore[]; // 各评分器明细，用于解释该帧胜出的原因
+  sparkle?: SparkleStats;  // 火彩模式下的高光统计
+  hash?: string;           // 分析画布上的感知哈希 (dHash)
+  globalScore?: number;    // 全视频归一化后的评分 0-100
+  globalRank?: number;     // 全局排名，仅最终精选帧有值
+  custom?: boolean;        // 时间轴手动截取的帧 (rankId 为 0)
+  shotType?: ShotType;     // AI 识别的镜头类型
+  aiStatus?: AiStatus;
+  aiError?: string;        // AI 分析失败原因
+}
+
+export type ShotType = 'hero' | 'macro' | 'on-model' | 'lifestyle';
+
+export type AiStatus = 'pending' | 'done' | 'error';
+
+export type AiLanguage = 'zh-CN' | 'en' | 'ja' | 'ko' | 'es';
+
+export interface ScoreSample {
+  time: number;
+  score: number;
+  sparkle?: number;
+}
+
+export type ScoringMode = 'sharpness' | 'sparkle';
+
+export interface SparkleStats {
+  highlights: number;     // 细小高亮光斑数量
+  fireHighlights: number; // 其中高饱和度 (色散火彩) 光斑数量
+  dispersion: number;     // 火彩光斑色相分散度 0-1
+  score: number;          // 火彩评分 0-100
+}
+
+export type ScorerId = 'laplacian' | 'tenengrad' | 'clipping' | 'center' | 'motion' | 'fill';
+
+export type ScorerWeights = Partial<Record<ScorerId, number>>;
+
+export interface MetricScore {
+  id: ScorerId;
+  raw: number;        // 评分器原始输出
+  normalized: number; // 归一化到 0-1，越高越好
+  weight: number;     // 参与综合评分的权重
 }
 
 export enum ProcessingStatus {
@@ -19,23 +65,164 @@ export enum ProcessingStatus {
   ERROR = 'ERROR'
 }
 
+/**
+ * 处理失败的原因分类，用于展示可读的错误说明
+ */
+export type ProcessingErrorReason = 'unsupported-codec' | 'zero-duration' | 'seek-timeout' | 'decode-error' | 'undecodable-images' | 'unknown';
+
+export interface ExtractionOptions {
+  segments: number;          // 分段数量
+  samplesPerSegment: number; // 每段扫描样本数
+  picksPerSegment: number;   // 每段保留的候选帧数
+  startTime: number;         // 扫描起点 (秒)
+  endTime?: number;          // 扫描终点 (秒)，留空表示视频结尾
+  weights?: ScorerWeights;   // 评分器权重，留空使用默认权重
+  mode?: ScoringMode;        // 评分模式，留空为清晰度优先
+  dedupe?: DedupeOptions;    // 近似重复抑制，留空使用默认阈值
+  topN?: number;             // 全局最终精选数量
+  maxPerSegment?: number;    // 最终精选中单个分段最多入选数量
+  refine?: RefineOptions;    // 粗扫 + 峰值精扫，留空则为单次等距扫描
+}
+
+export interface RefineOptions {
+  seekBudget: number;  // 分析阶段总寻帧次数 (粗扫 + 精扫，不含高清截图)
+  coarseRatio: number; // 粗扫占预算比例 0-1，其余用于峰值附近的密集寻帧
+}
+
+export interface DedupeOptions {
+  maxHashDistance: number; // 感知哈希汉明距离不超过该值视为重复 (0-64，0 仅过滤完全相同的画面)
+  minTimeGap: number;      // 入选帧之间的最小时间间隔 (秒)
+}
+
+export interface ExtractionPreset {
+  id: string;
+  name: string;
+  description: string;
+  options: ExtractionOptions;
+}
+
+/**
+ * 源视频探测结果 (MP4 / MOV 容器)，用于识别 HDR、旋转与浏览器可能不支持的编码
+ */
+export interface VideoSourceInfo {
+  codec?: string;        // 视频轨采样格式，如 avc1 / hvc1
+  width?: number;        // 轨道宽高 (旋转前)
+  height?: number;
+  rotation: 0 | 90 | 180 | 270; // 顺时针旋转角度
+  hdr?: 'hlg' | 'pq';
+  dolbyVision?: boolean;
+}
+
 export interface ProcessingMetadata {
   videoId: string;
   sessionTime: string;
+  duration: number;              // 视频时长 (秒)；图片批次为 0
+  imageCount?: number;           // 图片批次的图片数量
+  extraction: ExtractionOptions; // 实际生效的抽帧方案 (时间窗已按视频时长修正)
+  scoreCurve: ScoreSample[];     // 第一阶段全部样本的评分曲线，按时间排序
+  captureDate?: number;          // 拍摄日期 (源文件修改时间，毫秒)
+  source?: VideoSourceInfo;
+  blankSamples?: number;         // 取帧后仍为黑屏 / 未解码而跳过的样本数
+  decoder?: 'webcodecs' | 'seek'; // 取帧方式：WebCodecs 顺序解码或 video 元素寻帧
+  frameDuration?: number;        // 单帧时长 (秒)，来自容器样本表，用于时间轴逐帧微调
 }
 
+/**
+ * 商品表导入的属性：sku / title / material / color 及表中其他列
+ */
+export type ProductAttributes = Record<string, string>;
+
 export interface ProductBatch {
   id: string;
   fileName: string;
   productKey: string;
+  attributes?: ProductAttributes;
   status: ProcessingStatus;
+  error?: string; // 处理失败的原因
+  errorReason?: ProcessingErrorReason;
   progress: number;
   frames: Keyframe[];
   metadata?: ProcessingMetadata;
+  extraction: ExtractionOptions;
+  selection?: string[]; // 人工调整后的精选帧 ID (有序)，留空使用算法全局精选
+  adjustments?: ColorAdjustments; // 批次级色彩校正，应用于未单独调整的精选帧
   rawFile?: File; 
+  kind?: 'video' | 'images'; // 源类型，留空为视频
+  rawFiles?: File[];        // 图片批次的源图片 (连拍或文件夹)
+}
+
+export type ExportFormat = 'jpeg' | 'webp' | 'png' | 'avif';
+
+/**
+ * 导出预设：每个销售渠道一组格式与尺寸限制，ZIP 内对应一个子文件夹
+ */
+export interface ExportPreset {
+  id: string;            // 同时作为 ZIP 子文件夹名
+  name: string;
+  enabled: boolean;
+  format: ExportFormat;
+  quality: number;       // 0-1，PNG 忽略
+  maxLongEdge?: number;  // 长边上限 (像素)，超出则缩小
+  minLongEdge?: number;  // 长边下限 (像素)，不足则放大
+  maxFileSize?: number;  // 单文件上限 (字节)，超出时自动逐级降低质量
+}
+
+/**
+ * 导出 JPEG 时写入的 EXIF/XMP 版权信息
+ */
+export interface MetadataSettings {
+  embed: boolean;
+  artist: string;
+  copyright: string;
 }
 
 export interface AppConfig {
-  squareSize: number;
-  padding: number;
+  squareOutput: boolean; // 是否输出 1:1 方形主图
+  squareSize: number;    // 方形主图边长 (像素)
+  padding: number;       // 商品与画布边缘的最小留白 (像素)
+  whiteBackground: boolean; // 是否本地抠图并合成纯色背景
+  backgroundColor: string;  // 抠图后的背景色 (CSS 颜色)
+  exportPresets: ExportPreset[];
+  metadata: MetadataSettings;
+  fileNameTemplate: string; // 所有导出路径共用的文件命名模板 (不含扩展名)
+  promoClip: PromoClipSettings;
+}
+
+export type PromoFormat = 'webm' | 'webp' | 'gif';
+
+export type PromoLoopMode = 'none' | 'loop' | 'boomerang';
+
+/**
+ * 商品短视频 / 动图：由评分最高的时间段剪辑，随 ZIP 一起导出
+ */
+export interface PromoClipSettings {
+  enabled: boolean;
+  duration: number;       // 输出时长 (秒，3-6)
+  square: boolean;        // 按商品区域裁剪为正方形
+  speedRamp: boolean;     // 清晰处慢放、其余快进
+  loop: PromoLoopMode;    // 往返为正放后倒放
+  formats: PromoFormat[];
+}
+
+export type MetalPreset = 'none' | 'gold' | 'silver' | 'rose-gold';
+
+export interface ColorAdjustments {
+  autoWhiteBalance: boolean; // 以画面中性色区域自动校正偏色
+  exposure: number;          // 曝光补偿 (EV，-2 ~ 2)
+  contrast: number;          // 对比度 (-1 ~ 1)
+  vibrance: number;          // 自然饱和度 (-1 ~ 1)
+  preset: MetalPreset;       // 金属色调预设
+}
+
+export interface ProductRegion {
+  x: number;      // 以下均为相对原图宽高的 0-1 比例
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropOverride {
+  cx: number;   // 裁剪中心 (相对原图宽高的 0-1 比例)
+  cy: number;
+  zoom: number; // 相对自动裁剪的缩放倍数，>1 放大
 }